@@ -0,0 +1,158 @@
+import * as path from 'path';
+import { AssetType, ImportKind } from './types';
+import { countLines } from './scriptExtractor';
+
+/**
+ * A reference from a stylesheet or component markup to another stylesheet or asset
+ */
+export interface AssetReference {
+    source: string;
+    type: ImportKind;
+    /** How the reference is written: `@import`, `@use`, `@forward`, `url()` or a markup `src` attribute */
+    syntax: 'import' | 'use' | 'forward' | 'url' | 'src';
+    /** Zero-based line of the reference in the parsed content */
+    line: number;
+}
+
+const ASSET_EXTENSIONS: Record<AssetType, string[]> = {
+    stylesheet: ['.css', '.scss', '.sass', '.less', '.styl'],
+    json: ['.json', '.json5'],
+    image: ['.png', '.jpg', '.jpeg', '.gif', '.svg', '.webp', '.avif', '.ico', '.bmp'],
+    font: ['.woff', '.woff2', '.ttf', '.otf', '.eot'],
+    media: ['.mp4', '.webm', '.ogg', '.mp3', '.wav']
+};
+
+/**
+ * Classify a file as an asset by its extension
+ *
+ * @returns The asset type, or undefined for script and component files
+ */
+export function getAssetType(filePath: string): AssetType | undefined {
+    const ext = path.extname(filePath).toLowerCase();
+    return (Object.keys(ASSET_EXTENSIONS) as AssetType[]).find(type => ASSET_EXTENSIONS[type].includes(ext));
+}
+
+/**
+ * AssetReferenceParser finds references to stylesheets and assets in CSS/SCSS/Sass/Less files
+ * and in component markup (`<style>` blocks and Vue template asset URLs).
+ */
+export class AssetReferenceParser {
+    /**
+     * Collect `@import`/`@use`/`@forward` rules and `url()` references of a stylesheet.
+     *
+     * @param content - Stylesheet source
+     * @param filePath - Path of the stylesheet (its extension decides whether `//` starts a comment)
+     */
+    parseStylesheet(content: string, filePath: string): AssetReference[] {
+        const references: AssetReference[] = [];
+        let css = content.replace(/\/\*[\s\S]*?\*\//g, comment => comment.replace(/[^\n]/g, ' '));
+        if (path.extname(filePath) !== '.css') {
+            // SCSS, Sass, Less and Stylus allow line comments (but keep `url(http://...)`)
+            css = css.replace(/(^|[^:\\])\/\/.*$/gm, '$1');
+        }
+
+        // @use 'config' with (...); @forward 'src/list' hide list-reset; @import 'a', 'b'; @import url(x.css) screen;
+        const rulePattern = /@(import|use|forward)\b([^;\n]*)/g;
+        // Rules never span lines here, so removing them keeps the line of every later url()
+        css = css.replace(rulePattern, (rule, keyword: 'import' | 'use' | 'forward', args: string, offset: number, full: string) => {
+            const line = countLines(full.substring(0, offset));
+            const stringPattern = /url\(\s*(['"]?)([^'")\s]+)\1\s*\)|(['"])([^'"]+)\3/g;
+            let match;
+            while ((match = stringPattern.exec(args)) !== null) {
+                const source = match[2] || match[4];
+                if (this.isLocalReference(source)) {
+                    references.push({ source, type: keyword === 'forward' ? 're-export' : 'import', syntax: keyword, line });
+                }
+                // @use and @forward take a single URL; the rest are configuration
+                if (keyword !== 'import') {
+                    break;
+                }
+            }
+            return '';
+        });
+
+        // background: url('./images/bg.png'); src: url(fonts/x.woff2) format('woff2');
+        const urlPattern = /url\(\s*(['"]?)([^'")\s]+)\1\s*\)/g;
+        let match;
+        while ((match = urlPattern.exec(css)) !== null) {
+            if (this.isLocalReference(match[2])) {
+                references.push({ source: match[2], type: 'import', syntax: 'url', line: countLines(css.substring(0, match.index)) });
+            }
+        }
+
+        return references;
+    }
+
+    /**
+     * Collect stylesheet and asset references of a Vue/Svelte/Astro component:
+     * `<style>` blocks (in their `lang`), `<style src="...">`, and for Vue, the template asset URLs
+     * that the Vue compiler turns into imports (`<img src="./logo.png">`, `~`/`@` prefixed paths).
+     *
+     * @param content - Full component source
+     * @param filePath - Path of the component
+     */
+    parseComponent(content: string, filePath: string): AssetReference[] {
+        const references: AssetReference[] = [];
+        // Blank out instead of removing, so offsets and line numbers stay those of the original file
+        const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+        const markup = content.replace(/<!--[\s\S]*?-->/g, blank);
+
+        const stylePattern = /<style\b([^>]*)>([\s\S]*?)<\/style\s*>/gi;
+        let match;
+        while ((match = stylePattern.exec(markup)) !== null) {
+            const startLine = countLines(markup.substring(0, match.index));
+            const srcMatch = match[1].match(/\bsrc\s*=\s*["']([^"']+)["']/);
+            if (srcMatch) {
+                references.push({ source: srcMatch[1], type: 'import', syntax: 'src', line: startLine });
+            }
+            const langMatch = match[1].match(/\blang\s*=\s*["']?(\w+)/);
+            const blockLine = countLines(markup.substring(0, match.index + match[0].indexOf('>') + 1));
+            references.push(...this.parseStylesheet(match[2], `style.${langMatch ? langMatch[1] : 'css'}`)
+                .map(reference => ({ ...reference, line: blockLine + reference.line })));
+        }
+
+        if (filePath.endsWith('.vue')) {
+            const template = markup.replace(/<(script|style)\b[\s\S]*?<\/\1\s*>/gi, blank);
+            const assetUrlPattern = /<(?:img|video|audio|source|image|use)\b[^>]*?\s(?:src|poster|href|xlink:href)\s*=\s*["']([.~@][^"']*)["']/gi;
+            while ((match = assetUrlPattern.exec(template)) !== null) {
+                const position = match.index + match[0].lastIndexOf(match[1]);
+                references.push({ source: match[1], type: 'import', syntax: 'src', line: countLines(template.substring(0, position)) });
+            }
+        }
+
+        return references;
+    }
+
+    /**
+     * Candidate files for a stylesheet import, following Sass rules:
+     * the exact path, each stylesheet extension, `_partial` variants and `index`/`_index` files
+     */
+    static getStylesheetCandidates(basePath: string): string[] {
+        const dir = path.dirname(basePath);
+        const name = path.basename(basePath);
+        const candidates = [basePath];
+
+        if (!ASSET_EXTENSIONS.stylesheet.includes(path.extname(basePath))) {
+            for (const ext of ASSET_EXTENSIONS.stylesheet) {
+                candidates.push(path.join(dir, `${name}${ext}`), path.join(dir, `_${name}${ext}`));
+            }
+            for (const ext of ASSET_EXTENSIONS.stylesheet) {
+                candidates.push(path.join(basePath, `index${ext}`), path.join(basePath, `_index${ext}`));
+            }
+        } else if (!name.startsWith('_')) {
+            candidates.push(path.join(dir, `_${name}`));
+        }
+
+        return candidates;
+    }
+
+    /**
+     * Skip remote URLs, data URIs, root-relative (public) URLs, fragment-only references,
+     * Sass built-in modules and values built from variables or interpolation
+     */
+    private isLocalReference(source: string): boolean {
+        return !/^(?:[a-z][\w+.-]*:|\/|#)/i.test(source) &&
+            !source.includes('#{') &&
+            !/^(?:\$|@\{)/.test(source);
+    }
+}
@@ -0,0 +1,416 @@
+import * as path from 'path';
+import { parse, ParserPlugin } from '@babel/parser';
+import { CallExpression, ExportAllDeclaration, ExportNamedDeclaration, File, Identifier, ImportDeclaration, Node, StringLiteral } from '@babel/types';
+import { ImportKind } from './types';
+import { ScriptExtractor, ScriptLang } from './scriptExtractor';
+
+/**
+ * A single module specifier found in a source file, before any path resolution
+ */
+export interface ParsedImport {
+    source: string;
+    type: ImportKind;
+    importedNames?: string[];
+    /** For re-exports: the names the re-exporting file exposes, aligned with importedNames */
+    exportedNames?: string[];
+    /** Zero-based line of the specifier within the parsed code */
+    line?: number;
+}
+
+/**
+ * Everything the analyzer needs to know about one parsed module
+ */
+export interface ParsedModule {
+    imports: ParsedImport[];
+    /** Names of bindings the module declares and exports itself ('default' for default exports) */
+    exports: string[];
+}
+
+/**
+ * A binding listed in an `export` statement; `local` is set for `export { local as exported }`
+ */
+interface ExportBinding {
+    local?: string;
+    exported: string;
+    /** Set for `export type { x }` and `export { type x }` */
+    typeOnly?: boolean;
+    /** Zero-based line of the specifier in the `export` statement */
+    line?: number;
+}
+
+/**
+ * AstImportParser extracts import/require specifiers from a syntax tree produced by @babel/parser.
+ * Unlike plain regex matching it ignores comments, strings and template literals,
+ * and handles statements that span multiple lines.
+ */
+export class AstImportParser {
+    /**
+     * Parse source code and collect every static module reference and locally declared export.
+     *
+     * @param content - Script source code
+     * @param filePath - Path of the file the code belongs to
+     * @param lang - Language of the code (picks parser plugins); defaults to the one implied by the file extension
+     * @returns The collected imports and exports, or null when the code cannot be parsed
+     */
+    parse(content: string, filePath: string, lang: ScriptLang = ScriptExtractor.getLangForFile(filePath)): ParsedModule | null {
+        let ast: File;
+        try {
+            ast = parse(content, {
+                sourceType: 'module',
+                allowImportExportEverywhere: true,
+                allowReturnOutsideFunction: true,
+                allowAwaitOutsideFunction: true,
+                errorRecovery: true,
+                plugins: this.getPlugins(lang)
+            });
+        } catch (error) {
+            console.log(`⚠️  AST parse failed for ${path.basename(filePath)}, falling back to regex`);
+            return null;
+        }
+
+        const imports: ParsedImport[] = [];
+        const exports: ExportBinding[] = [];
+        // Bindings of `const { a } = require('x')` / `await import('x')`, keyed by the call node
+        const callBindings = new Map<CallExpression, string[]>();
+        // Local names introduced by import declarations, so `export { x }` can be traced back to its source
+        const importBindings = new Map<string, { source: string; importedName: string; typeOnly: boolean }>();
+
+        this.walk(ast.program, node => {
+            switch (node.type) {
+                case 'ImportDeclaration':
+                    // import x from 'a'; import { y } from 'b'; import 'c';
+                    for (const specifier of node.specifiers) {
+                        importBindings.set(specifier.local.name, {
+                            source: node.source.value,
+                            importedName: this.getSpecifierName(specifier),
+                            typeOnly: this.isTypeOnly(node) || (specifier.type === 'ImportSpecifier' && this.isTypeOnly(specifier))
+                        });
+                    }
+                    imports.push({
+                        source: node.source.value,
+                        type: this.getImportDeclarationKind(node),
+                        importedNames: node.specifiers.map(specifier => this.getSpecifierName(specifier)),
+                        line: this.getLine(node.source)
+                    });
+                    break;
+                case 'ExportAllDeclaration':
+                    // export * from './x'; export type * from './x';
+                    imports.push({
+                        source: node.source.value,
+                        type: this.getReExportKind(node),
+                        importedNames: ['*'],
+                        exportedNames: ['*'],
+                        line: this.getLine(node.source)
+                    });
+                    break;
+                case 'ExportNamedDeclaration':
+                    if (node.source) {
+                        // export { a, b as c } from './y'; export * as ns from './z';
+                        imports.push({
+                            source: node.source.value,
+                            type: this.getReExportKind(node),
+                            importedNames: node.specifiers.map(specifier => this.getReExportedName(specifier)),
+                            exportedNames: node.specifiers.map(specifier => this.getName(specifier.exported)),
+                            line: this.getLine(node.source)
+                        });
+                    } else {
+                        exports.push(...this.getDeclaredExportNames(node));
+                    }
+                    break;
+                case 'ExportDefaultDeclaration':
+                    exports.push({ exported: 'default' });
+                    break;
+                case 'TSImportEqualsDeclaration':
+                    // import fs = require('fs');
+                    if (node.moduleReference.type === 'TSExternalModuleReference') {
+                        imports.push({
+                            source: node.moduleReference.expression.value,
+                            type: node.importKind === 'type' ? 'type' : 'require',
+                            importedNames: ['*'],
+                            line: this.getLine(node.moduleReference.expression)
+                        });
+                    }
+                    break;
+                case 'TSImportType': {
+                    // let x: import('./types').Options;
+                    const source = this.getStaticString(node.argument);
+                    if (source !== undefined) {
+                        const qualifier = node.qualifier && node.qualifier.type === 'Identifier' ? node.qualifier.name : undefined;
+                        imports.push({ source, type: 'type', importedNames: qualifier ? [qualifier] : undefined, line: this.getLine(node.argument) });
+                    }
+                    break;
+                }
+                case 'VariableDeclarator': {
+                    const init = node.init && node.init.type === 'AwaitExpression' ? node.init.argument : node.init;
+                    if (init && init.type === 'CallExpression') {
+                        const names = this.getPatternNames(node.id);
+                        if (names) {
+                            callBindings.set(init, names);
+                        }
+                    }
+                    break;
+                }
+                case 'CallExpression': {
+                    const source = this.getStaticString(node.arguments[0]);
+                    if (source === undefined) {
+                        break;
+                    }
+                    if (node.callee.type === 'Import') {
+                        // import('./lazy')
+                        imports.push({ source, type: 'dynamic', importedNames: callBindings.get(node), line: this.getLine(node.arguments[0]) });
+                    } else if (node.callee.type === 'Identifier' && node.callee.name === 'require') {
+                        // require('./module')
+                        imports.push({ source, type: 'require', importedNames: callBindings.get(node), line: this.getLine(node.arguments[0]) });
+                    }
+                    break;
+                }
+            }
+        });
+
+        // `import { x } from './x'; export { x };` behaves like a re-export
+        const localExports: string[] = [];
+        for (const { local, exported, typeOnly, line } of exports) {
+            const binding = local ? importBindings.get(local) : undefined;
+            if (!binding) {
+                localExports.push(exported);
+                continue;
+            }
+            imports.push({
+                source: binding.source,
+                type: binding.typeOnly || typeOnly ? 'type' : 're-export',
+                importedNames: [binding.importedName],
+                exportedNames: [exported],
+                line
+            });
+        }
+
+        return { imports, exports: localExports };
+    }
+
+    /**
+     * Classify an import declaration: `import type` and imports whose specifiers are all
+     * `type` are erased at compile time, and a declaration without specifiers only runs the module
+     */
+    private getImportDeclarationKind(node: ImportDeclaration): ImportKind {
+        if (this.isTypeOnly(node)) {
+            return 'type';
+        }
+        if (node.specifiers.length === 0) {
+            return 'side-effect';
+        }
+        if (node.specifiers.every(specifier => specifier.type === 'ImportSpecifier' && this.isTypeOnly(specifier))) {
+            return 'type';
+        }
+        return 'import';
+    }
+
+    /**
+     * Classify an `export ... from` statement: `export type` and re-exports whose specifiers are all
+     * `type` are erased at compile time like type-only imports, so they do not load the source module
+     */
+    private getReExportKind(node: ExportNamedDeclaration | ExportAllDeclaration): ImportKind {
+        if (this.isTypeOnly(node)) {
+            return 'type';
+        }
+        if (node.type === 'ExportNamedDeclaration' && node.specifiers.length > 0 &&
+            node.specifiers.every(specifier => specifier.type === 'ExportSpecifier' && this.isTypeOnly(specifier))) {
+            return 'type';
+        }
+        return 're-export';
+    }
+
+    /**
+     * Whether a declaration or specifier carries a `type`/`typeof` modifier
+     */
+    private isTypeOnly(node: { importKind?: string | null; exportKind?: string | null }): boolean {
+        const kind = node.importKind || node.exportKind;
+        return kind === 'type' || kind === 'typeof';
+    }
+
+    /**
+     * Pick @babel/parser plugins based on the script language
+     */
+    private getPlugins(lang: ScriptLang): ParserPlugin[] {
+        const plugins: ParserPlugin[] = ['decorators-legacy'];
+
+        switch (lang) {
+            case 'ts':
+                plugins.push('typescript');
+                break;
+            case 'tsx':
+                plugins.push('typescript', 'jsx');
+                break;
+            default:
+                plugins.push('jsx');
+        }
+
+        return plugins;
+    }
+
+    /**
+     * Name of the exported binding an import specifier refers to:
+     * 'default' for default imports, '*' for namespace imports
+     */
+    private getSpecifierName(specifier: ImportDeclaration['specifiers'][number]): string {
+        switch (specifier.type) {
+            case 'ImportDefaultSpecifier':
+                return 'default';
+            case 'ImportNamespaceSpecifier':
+                return '*';
+            default:
+                return this.getName(specifier.imported);
+        }
+    }
+
+    /**
+     * Name a re-export specifier reads from the source module ('*' for `export * as ns`)
+     */
+    private getReExportedName(specifier: ExportNamedDeclaration['specifiers'][number]): string {
+        if (specifier.type === 'ExportNamespaceSpecifier') {
+            return '*';
+        }
+        if (specifier.type === 'ExportDefaultSpecifier') {
+            return 'default';
+        }
+        return this.getName(specifier.local);
+    }
+
+    /**
+     * Name of a binding in an import or export specifier; string names (`export { x as "a-b" }`) are literals
+     */
+    private getName(name: Identifier | StringLiteral): string {
+        return name.type === 'StringLiteral' ? name.value : name.name;
+    }
+
+    /**
+     * Bindings exported by a source-less `export` statement
+     */
+    private getDeclaredExportNames(node: ExportNamedDeclaration): ExportBinding[] {
+        if (node.specifiers.length > 0) {
+            return node.specifiers.map(specifier => ({
+                local: specifier.type === 'ExportSpecifier' ? this.getName(specifier.local) : undefined,
+                exported: this.getName(specifier.exported),
+                typeOnly: this.isTypeOnly(node) || (specifier.type === 'ExportSpecifier' && this.isTypeOnly(specifier)),
+                line: this.getLine(specifier)
+            }));
+        }
+
+        const declaration = node.declaration;
+        if (!declaration) {
+            return [];
+        }
+        if (declaration.type === 'VariableDeclaration') {
+            const names: string[] = [];
+            for (const declarator of declaration.declarations) {
+                this.collectBindingNames(declarator.id, names);
+            }
+            return names.map(name => ({ exported: name }));
+        }
+        const id = 'id' in declaration ? declaration.id : undefined;
+        return id && id.type === 'Identifier' ? [{ exported: id.name }] : [];
+    }
+
+    /**
+     * Collect identifiers bound by a (possibly destructuring) binding pattern
+     */
+    private collectBindingNames(pattern: Node | null | undefined, names: string[]): void {
+        if (!pattern) {
+            return;
+        }
+        switch (pattern.type) {
+            case 'Identifier':
+                names.push(pattern.name);
+                break;
+            case 'ObjectPattern':
+                for (const property of pattern.properties) {
+                    this.collectBindingNames(property.type === 'RestElement' ? property.argument : property.value, names);
+                }
+                break;
+            case 'ArrayPattern':
+                for (const element of pattern.elements) {
+                    this.collectBindingNames(element, names);
+                }
+                break;
+            case 'AssignmentPattern':
+                this.collectBindingNames(pattern.left, names);
+                break;
+            case 'RestElement':
+                this.collectBindingNames(pattern.argument, names);
+                break;
+        }
+    }
+
+    /**
+     * Names bound by the left side of `const ... = require('x')`:
+     * destructured keys for object patterns, '*' for a plain identifier
+     */
+    private getPatternNames(pattern: Node): string[] | undefined {
+        if (pattern.type === 'Identifier') {
+            return ['*'];
+        }
+        if (pattern.type === 'ObjectPattern') {
+            return pattern.properties.flatMap(property =>
+                property.type === 'ObjectProperty' && !property.computed && (property.key.type === 'Identifier' || property.key.type === 'StringLiteral')
+                    ? [this.getName(property.key)]
+                    : []);
+        }
+        return undefined;
+    }
+
+    /**
+     * Zero-based line where a node starts
+     */
+    private getLine(node: Node | null | undefined): number | undefined {
+        return node && node.loc ? node.loc.start.line - 1 : undefined;
+    }
+
+    /**
+     * Return the value of a string literal or an expression-free template literal
+     */
+    private getStaticString(node: Node | null | undefined): string | undefined {
+        if (!node) {
+            return undefined;
+        }
+        if (node.type === 'StringLiteral') {
+            return node.value;
+        }
+        if (node.type === 'TemplateLiteral' && node.expressions.length === 0) {
+            return node.quasis[0].value.cooked ?? undefined;
+        }
+        return undefined;
+    }
+
+    /**
+     * Depth-first traversal over every AST node
+     */
+    private walk(root: Node, visit: (node: Node) => void): void {
+        const stack: Node[] = [root];
+
+        while (stack.length > 0) {
+            const node = stack.pop()!;
+            visit(node);
+
+            for (const [key, value] of Object.entries(node)) {
+                if (key === 'loc' || key.endsWith('Comments')) {
+                    continue;
+                }
+                if (Array.isArray(value)) {
+                    for (let i = value.length - 1; i >= 0; i--) {
+                        if (this.isNode(value[i])) {
+                            stack.push(value[i]);
+                        }
+                    }
+                } else if (this.isNode(value)) {
+                    stack.push(value);
+                }
+            }
+        }
+    }
+
+    /**
+     * Whether a property value of a node is a child node
+     */
+    private isNode(value: unknown): value is Node {
+        return typeof value === 'object' && value !== null && typeof (value as { type?: unknown }).type === 'string';
+    }
+}
@@ -0,0 +1,330 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * An alias declared in a bundler config, mapping a specifier prefix to a directory or file
+ */
+export interface BundlerAlias {
+    find: string;
+    replacement: string;
+    /** webpack `key$` aliases only match the exact specifier */
+    exact: boolean;
+    /** Config file declaring the alias, relative to the project root */
+    configFile: string;
+}
+
+/**
+ * BundlerAliasDetector reads `resolve.alias` style settings from Vite, webpack, Rollup and Vue CLI
+ * config files. Like the Nuxt srcDir detection, configs are scraped with regexes rather than executed,
+ * so only literal alias keys and common path expressions are understood.
+ *
+ * Each import uses the configs of the nearest directory above it that has any, so packages of a
+ * monorepo with their own bundler config get their own aliases.
+ */
+export class BundlerAliasDetector {
+    private static readonly CONFIG_FILES = [
+        'vite.config.ts', 'vite.config.js', 'vite.config.mts', 'vite.config.mjs', 'vite.config.cjs',
+        'webpack.config.js', 'webpack.config.ts', 'webpack.config.cjs', 'webpack.config.mjs',
+        'rollup.config.js', 'rollup.config.ts', 'rollup.config.mjs', 'rollup.config.cjs',
+        'vue.config.js', 'vue.config.cjs', 'vue.config.mjs'
+    ];
+
+    private aliasCache = new Map<string, BundlerAlias[]>();
+    private directoryCache = new Map<string, string | null>();
+
+    constructor(public readonly projectRoot: string) {}
+
+    /**
+     * Resolve a specifier through the aliases of the nearest bundler config.
+     *
+     * @param source - The import specifier
+     * @param fromDir - Directory of the importing file
+     * @param resolveFile - Callback that turns a candidate path into an existing file
+     * @returns The resolved file path, or undefined when no alias applies
+     */
+    resolve(source: string, fromDir: string, resolveFile: (candidate: string) => string | undefined): string | undefined {
+        const configDir = this.findConfigDirectory(fromDir);
+        if (!configDir) {
+            return undefined;
+        }
+
+        for (const alias of this.detect(configDir)) {
+            let rest: string;
+            if (source === alias.find) {
+                rest = '';
+            } else if (!alias.exact && source.startsWith(alias.find.endsWith('/') ? alias.find : `${alias.find}/`)) {
+                rest = source.substring(alias.find.length).replace(/^\//, '');
+            } else {
+                continue;
+            }
+
+            const resolved = resolveFile(rest ? path.join(alias.replacement, rest) : alias.replacement);
+            if (resolved) {
+                return resolved;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Detect aliases from every bundler config in a directory.
+     *
+     * @param configDir - Directory containing the config files
+     * @returns Aliases sorted so longer (more specific) keys are tried first
+     */
+    private detect(configDir: string): BundlerAlias[] {
+        const cached = this.aliasCache.get(configDir);
+        if (cached) {
+            return cached;
+        }
+
+        const aliases: BundlerAlias[] = [];
+        for (const configName of BundlerAliasDetector.CONFIG_FILES) {
+            const configPath = path.join(configDir, configName);
+            if (!fs.existsSync(configPath)) {
+                continue;
+            }
+
+            const configFile = path.relative(this.projectRoot, configPath) || configName;
+            try {
+                const content = fs.readFileSync(configPath, 'utf-8');
+                const found = this.parseAliases(content, configDir, configFile);
+                if (found.length > 0) {
+                    console.log(`🔧 Detected ${found.length} aliases from ${configFile}: ${found.map(a => a.find).join(', ')}`);
+                }
+                aliases.push(...found);
+            } catch (error) {
+                console.log(`⚠️  Could not parse ${configFile}:`, error);
+            }
+        }
+
+        aliases.sort((a, b) => b.find.length - a.find.length);
+        this.aliasCache.set(configDir, aliases);
+        return aliases;
+    }
+
+    /**
+     * Find the nearest directory with a bundler config walking up from a directory, stopping at the project root
+     */
+    private findConfigDirectory(dir: string): string | undefined {
+        if (this.directoryCache.has(dir)) {
+            return this.directoryCache.get(dir) || undefined;
+        }
+
+        let found: string | null = BundlerAliasDetector.CONFIG_FILES.some(configFile => fs.existsSync(path.join(dir, configFile))) ? dir : null;
+
+        const parent = path.dirname(dir);
+        const isOutsideProject = path.relative(this.projectRoot, dir).startsWith('..');
+        if (!found && parent !== dir && !isOutsideProject && dir !== this.projectRoot) {
+            found = this.findConfigDirectory(parent) || null;
+        }
+
+        this.directoryCache.set(dir, found);
+        return found || undefined;
+    }
+
+    /**
+     * Parse alias declarations from config content using regex
+     */
+    private parseAliases(content: string, configDir: string, configFile: string): BundlerAlias[] {
+        // Remove comments
+        const cleanContent = content
+            .replace(/\/\*[\s\S]*?\*\//g, '') // Remove /* */ comments
+            .replace(/(^|[^:])\/\/.*$/gm, '$1'); // Remove // comments (but not URLs)
+
+        const aliases: BundlerAlias[] = [];
+        const addAlias = (key: string, valueExpression: string) => {
+            const replacement = this.evaluatePathExpression(valueExpression.trim(), configDir);
+            if (!replacement) {
+                return;
+            }
+            const exact = key.endsWith('$');
+            aliases.push({ find: exact ? key.slice(0, -1) : key, replacement, exact, configFile });
+        };
+
+        // resolve: { alias: {...} | [...] } (Vite, webpack, Vue CLI configureWebpack)
+        // alias({ entries: {...} | [...] }) (@rollup/plugin-alias)
+        const blockPattern = /\b(?:alias|entries)\s*:\s*([{[])/g;
+        let match;
+        while ((match = blockPattern.exec(cleanContent)) !== null) {
+            const blockStart = match.index + match[0].length - 1;
+            const block = this.extractBalanced(cleanContent, blockStart);
+            if (!block) {
+                continue;
+            }
+
+            if (match[1] === '{') {
+                for (const [key, value] of this.parseObjectEntries(block)) {
+                    addAlias(key, value);
+                }
+            } else {
+                // [{ find: '@', replacement: path.resolve(__dirname, 'src') }]
+                for (const entry of this.splitTopLevel(block)) {
+                    const trimmed = entry.trim();
+                    if (!trimmed.startsWith('{') || !trimmed.endsWith('}')) {
+                        continue;
+                    }
+                    const properties = new Map(this.parseObjectEntries(trimmed.slice(1, -1)));
+                    const findMatch = (properties.get('find') || '').trim().match(/^['"`]([^'"`]+)['"`]$/);
+                    const replacement = properties.get('replacement');
+                    if (findMatch && replacement) {
+                        addAlias(findMatch[1], replacement);
+                    }
+                }
+            }
+        }
+
+        // config.resolve.alias.set('@assets', path.resolve(__dirname, 'src/assets')) (Vue CLI chainWebpack)
+        const setPattern = /\.alias\s*\.set\s*\(\s*['"`]([^'"`]+)['"`]\s*,/g;
+        while ((match = setPattern.exec(cleanContent)) !== null) {
+            const argsStart = cleanContent.lastIndexOf('(', match.index + match[0].length);
+            const args = this.extractBalanced(cleanContent, argsStart);
+            if (args) {
+                const valueExpression = args.substring(args.indexOf(',') + 1);
+                addAlias(match[1], valueExpression);
+            }
+        }
+
+        return aliases;
+    }
+
+    /**
+     * Parse `key: value` pairs of an object literal body; keys may be quoted or bare identifiers
+     */
+    private parseObjectEntries(body: string): [string, string][] {
+        const entries: [string, string][] = [];
+        for (const entry of this.splitTopLevel(body)) {
+            const entryMatch = entry.match(/^\s*(?:['"`]([^'"`]+)['"`]|([\w$@~#-]+))\s*:\s*([\s\S]+)$/);
+            if (entryMatch) {
+                entries.push([entryMatch[1] || entryMatch[2], entryMatch[3]]);
+            }
+        }
+        return entries;
+    }
+
+    /**
+     * Evaluate the path expressions commonly used for alias targets:
+     * string literals, path.resolve/path.join with __dirname, template literals
+     * and fileURLToPath(new URL('./src', import.meta.url)).
+     */
+    private evaluatePathExpression(expression: string, configDir: string): string | undefined {
+        // Plain string: only relative or absolute paths point at project files
+        const stringMatch = expression.match(/^['"`]([^'"`$]+)['"`]$/);
+        if (stringMatch) {
+            const value = stringMatch[1];
+            if (value.startsWith('.') || path.isAbsolute(value)) {
+                return path.resolve(configDir, value);
+            }
+            return undefined;
+        }
+
+        // `${__dirname}/src`
+        const templateMatch = expression.match(/^`\$\{\s*(?:__dirname|process\.cwd\(\))\s*\}([^`]*)`$/);
+        if (templateMatch) {
+            return path.join(configDir, templateMatch[1]);
+        }
+
+        // fileURLToPath(new URL('./src', import.meta.url))
+        const urlMatch = expression.match(/new\s+URL\s*\(\s*['"`]([^'"`]+)['"`]\s*,\s*import\.meta\.url\s*\)/);
+        if (urlMatch) {
+            return path.resolve(configDir, urlMatch[1]);
+        }
+
+        // path.resolve(__dirname, 'src', 'assets') / join(__dirname, 'src') / resolve('src')
+        const callMatch = expression.match(/^(?:path\s*\.\s*)?(resolve|join)\s*\(([\s\S]*)\)$/);
+        if (callMatch) {
+            const args = this.splitTopLevel(callMatch[2]).map(arg => arg.trim());
+            const segments: string[] = [];
+            for (const arg of args) {
+                if (arg === '__dirname' || arg === 'process.cwd()' || arg === 'dirname' || arg === '') {
+                    continue;
+                }
+                const segmentMatch = arg.match(/^['"`]([^'"`$]*)['"`]$/);
+                if (!segmentMatch) {
+                    return undefined;
+                }
+                segments.push(segmentMatch[1]);
+            }
+            return callMatch[1] === 'resolve'
+                ? path.resolve(configDir, ...segments)
+                : path.join(configDir, ...segments);
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Return the contents between a bracket at `start` and its matching closing bracket
+     */
+    private extractBalanced(content: string, start: number): string | undefined {
+        const open = content[start];
+        const close = open === '{' ? '}' : open === '[' ? ']' : ')';
+        let depth = 0;
+        let quote: string | null = null;
+
+        for (let i = start; i < content.length; i++) {
+            const char = content[i];
+            if (quote) {
+                if (char === '\\') {
+                    i++;
+                } else if (char === quote) {
+                    quote = null;
+                }
+                continue;
+            }
+            if (char === '"' || char === '\'' || char === '`') {
+                quote = char;
+            } else if (char === open) {
+                depth++;
+            } else if (char === close) {
+                depth--;
+                if (depth === 0) {
+                    return content.substring(start + 1, i);
+                }
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Split a list on commas that are not nested inside brackets or strings
+     */
+    private splitTopLevel(content: string): string[] {
+        const parts: string[] = [];
+        let depth = 0;
+        let quote: string | null = null;
+        let current = '';
+
+        for (let i = 0; i < content.length; i++) {
+            const char = content[i];
+            if (quote) {
+                current += char;
+                if (char === '\\') {
+                    current += content[++i] || '';
+                } else if (char === quote) {
+                    quote = null;
+                }
+                continue;
+            }
+            if (char === '"' || char === '\'' || char === '`') {
+                quote = char;
+            } else if ('{[('.includes(char)) {
+                depth++;
+            } else if ('}])'.includes(char)) {
+                depth--;
+            } else if (char === ',' && depth === 0) {
+                if (current.trim()) {
+                    parts.push(current);
+                }
+                current = '';
+                continue;
+            }
+            current += char;
+        }
+
+        if (current.trim()) {
+            parts.push(current);
+        }
+        return parts;
+    }
+}
@@ -0,0 +1,260 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { ImportAnalyzer } from './importAnalyzer';
+import { ParserPool } from './parserPool';
+import { AnalysisDepth, ImportMap } from './types';
+import { GraphProblemKind, GRAPH_PROBLEM_KINDS, collectGraphProblems } from './graphProblems';
+import { ExportFormat, EXPORT_FORMATS, filterImportMap, formatExportedGraph, getFocusFilter, toExportedGraph } from './importMapExport';
+
+const USAGE = `Usage: import-map-explorer [root] [options]
+
+Analyze the imports of a project and write its import graph (JSON by default).
+
+Options:
+  -r, --root <dir>              Project directory (default: the current directory)
+  -f, --focus <file>            Only map the files around this file
+  -d, --depth <levels>          Levels of importers and dependencies around the focus file (0 = unlimited, default 1)
+      --importer-depth <levels> Levels of importers around the focus file
+      --dependency-depth <levels>
+                                Levels of dependencies around the focus file
+  -e, --exclude <pattern>       Skip files matching a .gitignore-style pattern (repeatable)
+  -o, --output <file>           Write the graph to a file instead of stdout
+      --format <format>         Output format: ${Object.keys(EXPORT_FORMATS).join(', ')} (default json)
+      --fail-on <problems>      Exit with code 1 when the graph has any of these problems
+                                (comma-separated): ${GRAPH_PROBLEM_KINDS.join(', ')}
+      --verbose                 Log the analysis to stderr
+  -h, --help                    Show this help
+  -v, --version                 Show the version
+
+Exit codes: 0 success, 1 problems found (--fail-on), 2 invalid arguments or failed analysis`;
+
+/**
+ * Options of one CLI run, as parsed from the command line
+ */
+interface CliOptions {
+    root: string;
+    focus?: string;
+    importerDepth?: number;
+    dependencyDepth?: number;
+    exclude: string[];
+    output?: string;
+    format: ExportFormat;
+    failOn: GraphProblemKind[];
+    verbose: boolean;
+}
+
+/**
+ * Invalid command line; reported with the usage hint and exit code 2
+ */
+class UsageError extends Error {}
+
+/**
+ * Parse the command line. Values follow their option (`--depth 2`) or an equals sign (`--depth=2`).
+ */
+function parseArguments(args: string[]): CliOptions | 'help' | 'version' {
+    const options: CliOptions = { root: process.cwd(), exclude: [], format: 'json', failOn: [], verbose: false };
+    let root: string | undefined;
+
+    for (let index = 0; index < args.length; index++) {
+        const [name, inlineValue] = args[index].startsWith('--') ? args[index].split(/=(.*)/s) : [args[index], undefined];
+        const value = () => {
+            const optionValue = inlineValue ?? args[++index];
+            if (optionValue === undefined) {
+                throw new UsageError(`Missing value for ${name}`);
+            }
+            return optionValue;
+        };
+
+        switch (name) {
+            case '-h':
+            case '--help':
+                return 'help';
+            case '-v':
+            case '--version':
+                return 'version';
+            case '-r':
+            case '--root':
+                root = value();
+                break;
+            case '-f':
+            case '--focus':
+                options.focus = value();
+                break;
+            case '-d':
+            case '--depth':
+                options.importerDepth = options.dependencyDepth = parseDepth(name, value());
+                break;
+            case '--importer-depth':
+                options.importerDepth = parseDepth(name, value());
+                break;
+            case '--dependency-depth':
+                options.dependencyDepth = parseDepth(name, value());
+                break;
+            case '-e':
+            case '--exclude':
+                options.exclude.push(value());
+                break;
+            case '-o':
+            case '--output':
+                options.output = value();
+                break;
+            case '--format':
+                options.format = parseFormat(value());
+                break;
+            case '--fail-on':
+                options.failOn.push(...parseProblemKinds(value()));
+                break;
+            case '--verbose':
+                options.verbose = true;
+                break;
+            default:
+                if (name.startsWith('-')) {
+                    throw new UsageError(`Unknown option: ${name}`);
+                }
+                if (root !== undefined) {
+                    throw new UsageError(`Unexpected argument: ${name}`);
+                }
+                root = name;
+        }
+    }
+
+    options.root = path.resolve(root ?? options.root);
+    if (!fs.existsSync(options.root) || !fs.statSync(options.root).isDirectory()) {
+        throw new UsageError(`Not a directory: ${options.root}`);
+    }
+    if (options.focus !== undefined) {
+        options.focus = path.resolve(options.focus);
+        if (!fs.existsSync(options.focus) || !fs.statSync(options.focus).isFile()) {
+            throw new UsageError(`Focus file not found: ${options.focus}`);
+        }
+        const relativeFocus = path.relative(options.root, options.focus);
+        if (relativeFocus.split(path.sep)[0] === '..' || path.isAbsolute(relativeFocus)) {
+            throw new UsageError(`Focus file is outside the project root ${options.root}: ${options.focus}`);
+        }
+    } else if (options.importerDepth !== undefined || options.dependencyDepth !== undefined) {
+        throw new UsageError('Depth options need a focus file (--focus)');
+    }
+    return options;
+}
+
+/**
+ * A depth option: a whole number of levels, 0 for unlimited
+ */
+function parseDepth(name: string, value: string): number {
+    const levels = Number(value);
+    if (!Number.isInteger(levels) || levels < 0) {
+        throw new UsageError(`${name} expects a whole number of levels (0 = unlimited), got: ${value}`);
+    }
+    return levels === 0 ? Infinity : levels;
+}
+
+function parseFormat(value: string): ExportFormat {
+    if (!(value in EXPORT_FORMATS)) {
+        throw new UsageError(`Unknown format: ${value} (expected ${Object.keys(EXPORT_FORMATS).join(', ')})`);
+    }
+    return value as ExportFormat;
+}
+
+function parseProblemKinds(value: string): GraphProblemKind[] {
+    return value.split(',').map(kind => kind.trim()).filter(Boolean).map(kind => {
+        if (!GRAPH_PROBLEM_KINDS.includes(kind as GraphProblemKind)) {
+            throw new UsageError(`Unknown problem kind: ${kind} (expected ${GRAPH_PROBLEM_KINDS.join(', ')})`);
+        }
+        return kind as GraphProblemKind;
+    });
+}
+
+/**
+ * Analyze the project, write the graph and report the problems the build should fail on
+ *
+ * @returns The process exit code
+ */
+async function run(options: CliOptions): Promise<number> {
+    const analyzer = new ImportAnalyzer();
+    const parserPool = new ParserPool();
+    analyzer.setParserPool(parserPool);
+    const depth: AnalysisDepth | undefined = options.focus ? {
+        importers: options.importerDepth ?? 1,
+        dependencies: options.dependencyDepth ?? 1
+    } : undefined;
+    analyzer.setProjectSettings(options.root, { exclude: options.exclude, depth });
+
+    let importMap: ImportMap;
+    try {
+        importMap = options.focus
+            ? await analyzer.analyzeFile(options.focus, options.root, depth)
+            : await analyzer.analyzeProject(options.root);
+    } finally {
+        parserPool.dispose();
+    }
+    if (options.focus) {
+        importMap = filterImportMap(importMap, getFocusFilter(importMap));
+    }
+    const problems = collectGraphProblems(importMap);
+
+    const output = formatExportedGraph(toExportedGraph(importMap, options.root, problems), options.format);
+    if (options.output) {
+        fs.mkdirSync(path.dirname(path.resolve(options.output)), { recursive: true });
+        fs.writeFileSync(options.output, output);
+        console.error(`Wrote ${importMap.files.size} files to ${options.output}`);
+    } else {
+        process.stdout.write(output);
+    }
+
+    const relative = (filePath: string) => path.relative(options.root, filePath).split(path.sep).join('/');
+    const location = (filePath: string, line?: number) => line === undefined ? relative(filePath) : `${relative(filePath)}:${line + 1}`;
+    const failures: string[] = [];
+    if (options.failOn.includes('unresolved')) {
+        failures.push(...problems.unresolved.map(problem => `${location(problem.filePath, problem.line)}: cannot resolve '${problem.source}'`));
+    }
+    if (options.failOn.includes('cycles')) {
+        failures.push(...problems.cycles.map(cycle => `circular imports: ${cycle.map(relative).join(' ↔ ')}`));
+    }
+    if (options.failOn.includes('undeclared')) {
+        failures.push(...problems.undeclared.map(problem => `${location(problem.filePath, problem.line)}: '${problem.packageName}' is not declared in package.json`));
+    }
+
+    if (failures.length > 0) {
+        failures.forEach(failure => console.error(failure));
+        console.error(`${failures.length} import graph problem${failures.length === 1 ? '' : 's'} found`);
+        return 1;
+    }
+    return 0;
+}
+
+async function main(): Promise<void> {
+    let options: CliOptions | 'help' | 'version';
+    try {
+        options = parseArguments(process.argv.slice(2));
+    } catch (error) {
+        if (!(error instanceof UsageError)) {
+            throw error;
+        }
+        console.error(`import-map-explorer: ${error.message}`);
+        console.error(`Run 'import-map-explorer --help' for usage.`);
+        process.exitCode = 2;
+        return;
+    }
+
+    if (options === 'help') {
+        console.log(USAGE);
+        return;
+    }
+    if (options === 'version') {
+        console.log(JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf-8')).version);
+        return;
+    }
+
+    // The analyzer logs its progress with console.log; stdout is reserved for the graph
+    console.log = options.verbose ? (...data: unknown[]) => console.error(...data) : () => undefined;
+
+    try {
+        process.exitCode = await run(options);
+    } catch (error) {
+        console.error('import-map-explorer: analysis failed:', error);
+        process.exitCode = 2;
+    }
+}
+
+main();
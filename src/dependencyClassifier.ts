@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { builtinModules } from 'module';
+import { DependencyType } from './types';
+
+interface DeclaredDependencies {
+    dependencies: Set<string>;
+    peerDependencies: Set<string>;
+    devDependencies: Set<string>;
+}
+
+/**
+ * DependencyClassifier normalizes external module specifiers to package names and classifies them
+ * as Node built-ins or by the package.json field that declares them. Each importing file is checked
+ * against the nearest package.json first, then its ancestors (so hoisted monorepo dependencies count).
+ */
+export class DependencyClassifier {
+    private static readonly BUILTINS = new Set(builtinModules);
+
+    private packageCache = new Map<string, DeclaredDependencies | null>();
+
+    /**
+     * Package a module specifier belongs to: `lodash/get` -> `lodash`, `@scope/pkg/sub` -> `@scope/pkg`,
+     * `node:fs/promises` -> `fs`. Query strings (`pkg/file?raw`) are dropped.
+     */
+    static getPackageName(source: string): string {
+        const specifier = source.replace(/[?#].*$/, '').replace(/^node:/, '');
+        const segments = specifier.split('/');
+        if (specifier.startsWith('@') && segments.length > 1) {
+            return `${segments[0]}/${segments[1]}`;
+        }
+        return segments[0];
+    }
+
+    /**
+     * The DefinitelyTyped package for a package: `vscode` -> `@types/vscode`, `@scope/pkg` -> `@types/scope__pkg`
+     */
+    static getTypesPackageName(packageName: string): string {
+        return `@types/${packageName.startsWith('@') ? packageName.substring(1).replace('/', '__') : packageName}`;
+    }
+
+    /**
+     * Classify an external module. A package declared only through its `@types/` package (like
+     * `vscode`, provided at runtime by the host) is classified by the field declaring the types.
+     *
+     * @param source - The import specifier as written
+     * @param fromDir - Directory of the importing file
+     */
+    classify(source: string, fromDir: string): DependencyType {
+        const packageName = DependencyClassifier.getPackageName(source);
+        if (source.startsWith('node:') || DependencyClassifier.BUILTINS.has(packageName)) {
+            return 'builtin';
+        }
+        const typesPackageName = DependencyClassifier.getTypesPackageName(packageName);
+
+        let dir = fromDir;
+        while (true) {
+            const declared = this.readDependencies(dir);
+            if (declared) {
+                // The package itself decides over its types package
+                for (const name of [packageName, typesPackageName]) {
+                    // A package listed as both peer and dev dependency (common for libraries) is a peer dependency
+                    if (declared.dependencies.has(name)) {
+                        return 'dependency';
+                    }
+                    if (declared.peerDependencies.has(name)) {
+                        return 'peerDependency';
+                    }
+                    if (declared.devDependencies.has(name)) {
+                        return 'devDependency';
+                    }
+                }
+            }
+            const parent = path.dirname(dir);
+            if (parent === dir) {
+                return 'undeclared';
+            }
+            dir = parent;
+        }
+    }
+
+    private readDependencies(dir: string): DeclaredDependencies | null {
+        if (this.packageCache.has(dir)) {
+            return this.packageCache.get(dir)!;
+        }
+
+        let declared: DeclaredDependencies | null = null;
+        const packageJsonPath = path.join(dir, 'package.json');
+        if (fs.existsSync(packageJsonPath)) {
+            try {
+                const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+                declared = {
+                    dependencies: new Set([
+                        ...Object.keys(packageJson.dependencies || {}),
+                        ...Object.keys(packageJson.optionalDependencies || {})
+                    ]),
+                    peerDependencies: new Set(Object.keys(packageJson.peerDependencies || {})),
+                    devDependencies: new Set(Object.keys(packageJson.devDependencies || {}))
+                };
+            } catch (error) {
+                console.log(`⚠️  Could not parse ${packageJsonPath}:`, error);
+            }
+        }
+
+        this.packageCache.set(dir, declared);
+        return declared;
+    }
+}
@@ -1,11 +1,104 @@
 import * as vscode from 'vscode';
-import { ImportMapPanel } from './importMapPanel';
-import { ImportAnalyzer } from './importAnalyzer';
+import * as path from 'path';
+import { ImportMapPanel, ImageFormat } from './importMapPanel';
+import { ImportAnalyzer, AnalysisCancelledError } from './importAnalyzer';
+import { RESOLUTION_CONDITIONS } from './packageJsonResolver';
+import { UnresolvedImportDiagnostics } from './unresolvedImports';
+import { ParseCache } from './parseCache';
+import { ParserPool } from './parserPool';
+import { ImportMapWatcher } from './importMapWatcher';
+import { EXPORT_FORMATS, ExportFormat, filterImportMap, formatExportedGraph, toExportedGraph } from './importMapExport';
+import { readAnalyzerSettings, formatDepth, DEPTH_CHOICES, SETTINGS_SECTION } from './settings';
+import { ImportMap, AnalysisDepth, AnalysisOptions } from './types';
+
+/**
+ * Minimum time between two updates of the progress notification
+ */
+const PROGRESS_INTERVAL_MS = 100;
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Import Map Explorer extension is now active!');
 
     const analyzer = new ImportAnalyzer();
+    analyzer.setResolutionConditions(context.workspaceState.get<string[]>('resolutionConditions', ['node']));
+
+    // Parse results saved in the workspace storage, so only files changed since the last analysis are parsed again
+    const parseCache = new ParseCache((context.storageUri || context.globalStorageUri).fsPath, context.extension.packageJSON.version);
+    analyzer.setParseCache(parseCache);
+
+    // Files are parsed on worker threads, so large analyses do not block the extension host
+    const parserPool = new ParserPool();
+    analyzer.setParserPool(parserPool);
+
+    // Analyses and updates share the analyzer's per-project state, so they run one at a time
+    let pendingOperation: Promise<unknown> = Promise.resolve();
+    const runExclusive = <T>(operation: () => Promise<T>): Promise<T> => {
+        const result = pendingOperation.then(operation);
+        pendingOperation = result.catch(() => undefined);
+        return result;
+    };
+
+    // Problems view entries and quick fixes for imports that do not resolve to a file
+    const diagnostics = new UnresolvedImportDiagnostics();
+    const codeActionProvider = vscode.languages.registerCodeActionsProvider({ scheme: 'file' }, diagnostics, {
+        providedCodeActionKinds: UnresolvedImportDiagnostics.providedCodeActionKinds
+    });
+
+    // The map shown in the panel and the analysis behind it, re-run when settings change
+    let lastMap: {
+        importMap: ImportMap;
+        analyze: (options?: AnalysisOptions) => Promise<ImportMap>;
+        projectRoot: string;
+        currentFile?: string;
+        isProjectMode: boolean;
+    } | undefined;
+
+    /**
+     * Analyze a file with its importers and dependencies and show it in the panel
+     *
+     * @param fileUri - The focused file
+     * @param depth - Levels of importers and dependencies; the depth settings when omitted
+     * @param inPlace - Redraw the open panel where it is instead of revealing it next to the editor
+     */
+    const showFileMap = async (fileUri: vscode.Uri, depth?: AnalysisDepth, inPlace = false) => {
+        const currentFilePath = fileUri.fsPath;
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(fileUri);
+        
+        if (!workspaceFolder) {
+            vscode.window.showErrorMessage('No workspace folder found');
+            return;
+        }
+
+        console.log('Analyzing file:', currentFilePath);
+        console.log('Workspace folder:', workspaceFolder.uri.fsPath);
+
+        try {
+            const analyze = (options?: AnalysisOptions) => runExclusive(() => {
+                applySettings(analyzer, workspaceFolder.uri);
+                return analyzer.analyzeFile(currentFilePath, workspaceFolder.uri.fsPath, depth, options);
+            });
+            const importMap = await runAnalysis('Import Map Explorer: Analyzing current file', analyze);
+            if (!importMap) {
+                return;
+            }
+            lastMap = { importMap, analyze, projectRoot: workspaceFolder.uri.fsPath, currentFile: currentFilePath, isProjectMode: false };
+            console.log('Import map result:', {
+                filesCount: importMap.files.size,
+                entryFile: importMap.entryFile,
+                files: Array.from(importMap.files.keys())
+            });
+            
+            diagnostics.update(importMap);
+            if (inPlace) {
+                ImportMapPanel.updateContent(importMap, currentFilePath, false);
+            } else {
+                ImportMapPanel.createOrShow(context.extensionUri, importMap, currentFilePath, false);
+            }
+        } catch (error) {
+            console.error('Error analyzing imports:', error);
+            vscode.window.showErrorMessage(`Error analyzing imports: ${error}`);
+        }
+    };
 
     // Command to show import map for current file
     const showCurrentFileMapCommand = vscode.commands.registerCommand(
@@ -16,34 +109,69 @@ export function activate(context: vscode.ExtensionContext) {
                 vscode.window.showErrorMessage('No active editor found');
                 return;
             }
+            await showFileMap(activeEditor.document.uri);
+        }
+    );
 
-            const currentFilePath = activeEditor.document.uri.fsPath;
-            const workspaceFolder = vscode.workspace.getWorkspaceFolder(activeEditor.document.uri);
-            
-            if (!workspaceFolder) {
-                vscode.window.showErrorMessage('No workspace folder found');
+    // Command to show import map for current file, asking how many levels of importers and dependencies to include
+    const showCurrentFileMapWithDepthCommand = vscode.commands.registerCommand(
+        'importMapExplorer.showCurrentFileMapWithDepth',
+        async () => {
+            const activeEditor = vscode.window.activeTextEditor;
+            if (!activeEditor) {
+                vscode.window.showErrorMessage('No active editor found');
                 return;
             }
 
-            console.log('Analyzing file:', currentFilePath);
-            console.log('Workspace folder:', workspaceFolder.uri.fsPath);
-
-            try {
-                const importMap = await analyzer.analyzeFile(currentFilePath, workspaceFolder.uri.fsPath);
-                console.log('Import map result:', {
-                    filesCount: importMap.files.size,
-                    entryFile: importMap.entryFile,
-                    files: Array.from(importMap.files.keys())
-                });
-                
-                ImportMapPanel.createOrShow(context.extensionUri, importMap, currentFilePath, false);
-            } catch (error) {
-                console.error('Error analyzing imports:', error);
-                vscode.window.showErrorMessage(`Error analyzing imports: ${error}`);
+            const importers = await pickDepth('Levels of files importing the current file');
+            if (importers === undefined) {
+                return;
+            }
+            const dependencies = await pickDepth('Levels of files imported by the current file');
+            if (dependencies === undefined) {
+                return;
             }
+            await showFileMap(activeEditor.document.uri, { importers, dependencies });
         }
     );
 
+    // Depth picked in the panel: analyze the shown file again
+    const depthListener = ImportMapPanel.onDidChangeDepth(async depth => {
+        if (!lastMap || lastMap.isProjectMode || !lastMap.currentFile) {
+            return;
+        }
+        await showFileMap(vscode.Uri.file(lastMap.currentFile), depth, true);
+    });
+
+    /**
+     * Show the partial results of a project or workspace analysis and then its final map: the first
+     * map opens the panel, later ones are applied to it as updates, keeping its layout
+     *
+     * @param currentFile - File highlighted in the map
+     */
+    const createProgressiveView = (currentFile: string | undefined) => {
+        let isShown = false;
+        return (importMap: ImportMap) => {
+            if (isShown) {
+                ImportMapPanel.applyUpdate(importMap, currentFile, true);
+            } else {
+                ImportMapPanel.createOrShow(context.extensionUri, importMap, currentFile, true);
+                isShown = true;
+            }
+        };
+    };
+
+    /**
+     * Extend the options of runAnalysis to show partial results while the analysis runs
+     */
+    const withPartialResults = (options: AnalysisOptions, show: (importMap: ImportMap) => void): AnalysisOptions => ({
+        ...options,
+        onPartialResult: importMap => {
+            lastMap = undefined; // The panel no longer shows the previous map
+            show(importMap);
+        }
+    });
+
     // Command to show import map for entire project
     const showMapCommand = vscode.commands.registerCommand(
         'importMapExplorer.showMap',
@@ -61,15 +189,349 @@ export function activate(context: vscode.ExtensionContext) {
             }
 
             try {
-                const importMap = await analyzer.analyzeProject(workspaceFolder.uri.fsPath);
-                ImportMapPanel.createOrShow(context.extensionUri, importMap, targetUri.fsPath, true);
+                const analyze = (options?: AnalysisOptions) => runExclusive(() => {
+                    applySettings(analyzer, workspaceFolder.uri);
+                    return analyzer.analyzeProject(workspaceFolder.uri.fsPath, options);
+                });
+                const show = createProgressiveView(targetUri.fsPath);
+                const importMap = await runAnalysis('Import Map Explorer: Analyzing project', options => analyze(withPartialResults(options, show)));
+                if (!importMap) {
+                    return;
+                }
+                lastMap = { importMap, analyze, projectRoot: workspaceFolder.uri.fsPath, currentFile: targetUri.fsPath, isProjectMode: true };
+                diagnostics.update(importMap);
+                show(importMap);
             } catch (error) {
                 vscode.window.showErrorMessage(`Error analyzing project: ${error}`);
             }
         }
     );
 
-    context.subscriptions.push(showCurrentFileMapCommand, showMapCommand);
+    // Command to show one import map for all folders of a multi-root workspace
+    const showWorkspaceMapCommand = vscode.commands.registerCommand(
+        'importMapExplorer.showWorkspaceMap',
+        async () => {
+            const folders = vscode.workspace.workspaceFolders;
+            if (!folders || folders.length === 0) {
+                vscode.window.showErrorMessage('No workspace folder found');
+                return;
+            }
+
+            try {
+                const roots = folders.map(folder => ({ name: folder.name, path: folder.uri.fsPath }));
+                const analyze = (options?: AnalysisOptions) => runExclusive(() => {
+                    folders.forEach(folder => applySettings(analyzer, folder.uri));
+                    return analyzer.analyzeWorkspace(roots, options);
+                });
+                const currentFile = vscode.window.activeTextEditor?.document.uri.fsPath;
+                const show = createProgressiveView(currentFile);
+                const importMap = await runAnalysis('Import Map Explorer: Analyzing workspace', options => analyze(withPartialResults(options, show)));
+                if (!importMap) {
+                    return;
+                }
+                lastMap = {
+                    importMap,
+                    analyze,
+                    projectRoot: folders[0].uri.fsPath,
+                    currentFile,
+                    isProjectMode: true
+                };
+                diagnostics.update(importMap);
+                show(importMap);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error analyzing workspace: ${error}`);
+            }
+        }
+    );
+
+    // Command to choose conditions for package.json "imports"/"exports" resolution
+    /**
+     * Analyze the map shown in the panel again after a setting changed, and redraw it
+     *
+     * @param title - Progress notification title
+     */
+    const reanalyzeShownMap = async (title: string): Promise<void> => {
+        if (!lastMap || !ImportMapPanel.currentPanel) {
+            return;
+        }
+        const shownMap = lastMap;
+        const importMap = await runAnalysis(title, shownMap.analyze);
+        if (!importMap || lastMap !== shownMap) {
+            return;
+        }
+        shownMap.importMap = importMap;
+        diagnostics.update(importMap);
+        ImportMapPanel.updateContent(importMap, shownMap.currentFile, shownMap.isProjectMode);
+    };
+
+    const selectConditionsCommand = vscode.commands.registerCommand(
+        'importMapExplorer.selectConditions',
+        async () => {
+            const current = context.workspaceState.get<string[]>('resolutionConditions', ['node']);
+            const picked = await vscode.window.showQuickPick(
+                RESOLUTION_CONDITIONS.map(condition => ({
+                    label: condition,
+                    picked: current.includes(condition)
+                })),
+                {
+                    canPickMany: true,
+                    placeHolder: 'Conditions used to resolve package.json "imports" and "exports" (import/require is also chosen per statement)'
+                }
+            );
+            if (!picked) {
+                return;
+            }
+
+            const conditions = picked.map(item => item.label);
+            await context.workspaceState.update('resolutionConditions', conditions);
+            // Not while an analysis runs, which would mix the old and new conditions
+            await runExclusive(async () => analyzer.setResolutionConditions(conditions));
+            vscode.window.showInformationMessage(`Resolution conditions: ${conditions.join(', ') || '(default only)'}`);
+            try {
+                await reanalyzeShownMap('Import Map Explorer: Applying resolution conditions');
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error applying resolution conditions: ${error}`);
+            }
+        }
+    );
+
+    // Command to drop the cached parse results, e.g. after a parser fix or when the cache looks stale
+    const clearCacheCommand = vscode.commands.registerCommand(
+        'importMapExplorer.clearCache',
+        () => {
+            parseCache.clear();
+            vscode.window.showInformationMessage('Import Map Explorer: analysis cache cleared');
+        }
+    );
+
+    /**
+     * Where to suggest saving an export or image of the shown map
+     *
+     * @param extension - File extension of the format, without the dot
+     */
+    const getDefaultSaveUri = (extension: string): vscode.Uri | undefined => {
+        const folder = lastMap?.projectRoot || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!folder) {
+            return undefined;
+        }
+        const baseName = lastMap?.currentFile && !lastMap.isProjectMode ? `${path.parse(lastMap.currentFile).name}.imports` : 'import-map';
+        return vscode.Uri.file(path.join(folder, `${baseName}.${extension}`));
+    };
+
+    // Command to export the map shown in the panel; the panel replies with what it shows
+    const exportMapCommand = vscode.commands.registerCommand(
+        'importMapExplorer.exportMap',
+        () => {
+            if (!lastMap || !ImportMapPanel.currentPanel) {
+                vscode.window.showErrorMessage('Show an import map before exporting it');
+                return;
+            }
+            ImportMapPanel.requestExport();
+        }
+    );
+
+    // Export requested from the panel: save the shown files and imports in the picked format
+    const exportListener = ImportMapPanel.onDidRequestExport(async filter => {
+        const shownMap = lastMap;
+        if (!shownMap) {
+            vscode.window.showErrorMessage('The import map is still being analyzed; export it once the analysis is done');
+            return;
+        }
+
+        const format = await pickExportFormat();
+        if (!format) {
+            return;
+        }
+        const { label, extension } = EXPORT_FORMATS[format];
+        const targetUri = await vscode.window.showSaveDialog({
+            defaultUri: getDefaultSaveUri(extension),
+            filters: { [label]: [extension] }
+        });
+        if (!targetUri) {
+            return;
+        }
+
+        try {
+            const graph = toExportedGraph(filterImportMap(shownMap.importMap, filter), shownMap.projectRoot);
+            await vscode.workspace.fs.writeFile(targetUri, Buffer.from(formatExportedGraph(graph, format), 'utf-8'));
+            console.log(`📤 Exported ${graph.files.length} files to ${targetUri.fsPath}`);
+            vscode.window.showInformationMessage(`Import map exported to ${path.basename(targetUri.fsPath)} (${graph.files.length} files, ${graph.imports.length} imports)`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Error exporting import map: ${error}`);
+        }
+    });
+
+    // Command to save the whole map, as drawn in the panel, as an image; also run by the panel's Save Image button
+    const saveImageCommand = vscode.commands.registerCommand(
+        'importMapExplorer.saveImage',
+        async () => {
+            if (!ImportMapPanel.currentPanel) {
+                vscode.window.showErrorMessage('Show an import map before saving it as an image');
+                return;
+            }
+
+            const format = await pickImageFormat();
+            if (!format) {
+                return;
+            }
+            const targetUri = await vscode.window.showSaveDialog({
+                defaultUri: getDefaultSaveUri(format),
+                filters: { [`${format.toUpperCase()} image`]: [format] }
+            });
+            if (!targetUri) {
+                return;
+            }
+
+            try {
+                const image = await ImportMapPanel.renderImage(format);
+                await vscode.workspace.fs.writeFile(targetUri, image);
+                console.log(`🖼️  Saved import map image to ${targetUri.fsPath}`);
+                vscode.window.showInformationMessage(`Import map saved to ${path.basename(targetUri.fsPath)}`);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error saving import map image: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+    );
+
+    // Re-apply settings live: analyze again and redraw the open panel
+    const configurationListener = vscode.workspace.onDidChangeConfiguration(async event => {
+        if (!event.affectsConfiguration(SETTINGS_SECTION)) {
+            return;
+        }
+        try {
+            await reanalyzeShownMap('Import Map Explorer: Applying settings');
+        } catch (error) {
+            vscode.window.showErrorMessage(`Error applying Import Map Explorer settings: ${error}`);
+        }
+    });
+
+    // Keep the importer indexes and the open map in sync with files created, edited, renamed or deleted on disk
+    const watcher = new ImportMapWatcher(async changes => {
+        await runExclusive(() => analyzer.updateImporterIndexes(changes));
+
+        const shownMap = lastMap;
+        if (!shownMap || !ImportMapPanel.currentPanel) {
+            return;
+        }
+
+        const update = await runExclusive(() => analyzer.updateImportMap(shownMap.importMap, shownMap.projectRoot, changes));
+        if (update === 'none') {
+            return;
+        }
+        const importMap = update === 'patched' ? shownMap.importMap : await shownMap.analyze();
+        if (lastMap !== shownMap) {
+            return; // Another map was opened meanwhile
+        }
+
+        shownMap.importMap = importMap;
+        diagnostics.delete(changes.deleted);
+        diagnostics.update(importMap);
+        ImportMapPanel.applyUpdate(importMap, shownMap.currentFile, shownMap.isProjectMode);
+    });
+
+    context.subscriptions.push(
+        showCurrentFileMapCommand,
+        showCurrentFileMapWithDepthCommand,
+        showMapCommand,
+        showWorkspaceMapCommand,
+        selectConditionsCommand,
+        clearCacheCommand,
+        exportMapCommand,
+        saveImageCommand,
+        diagnostics,
+        codeActionProvider,
+        configurationListener,
+        depthListener,
+        exportListener,
+        watcher,
+        parserPool,
+        { dispose: () => parseCache.flush() }
+    );
+}
+
+/**
+ * Pass the current settings of a workspace folder to the analyzer
+ */
+function applySettings(analyzer: ImportAnalyzer, folderUri: vscode.Uri) {
+    analyzer.setProjectSettings(folderUri.fsPath, readAnalyzerSettings(folderUri));
+}
+
+/**
+ * Run an analysis behind a progress notification that counts the analyzed files and offers Cancel
+ *
+ * @param title - Title of the notification
+ * @param analyze - Starts the analysis with the given progress and cancellation hooks
+ * @returns The import map, or undefined when the user cancelled
+ */
+async function runAnalysis(title: string, analyze: (options: AnalysisOptions) => Promise<ImportMap>): Promise<ImportMap | undefined> {
+    return vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title, cancellable: true },
+        async (progress, token) => {
+            progress.report({ message: 'Listing files...' });
+            let reportedPercent = 0;
+            let lastReport = 0;
+            try {
+                return await analyze({
+                    cancellation: token,
+                    onProgress: ({ analyzedFiles, totalFiles }) => {
+                        if (Date.now() - lastReport < PROGRESS_INTERVAL_MS && analyzedFiles < totalFiles) {
+                            return;
+                        }
+                        lastReport = Date.now();
+                        const percent = totalFiles > 0 ? analyzedFiles / totalFiles * 100 : 0;
+                        progress.report({ message: `${analyzedFiles} / ${totalFiles} files`, increment: Math.max(0, percent - reportedPercent) });
+                        reportedPercent = Math.max(reportedPercent, percent);
+                    }
+                });
+            } catch (error) {
+                if (error instanceof AnalysisCancelledError) {
+                    console.log('⏹️  Analysis cancelled');
+                    return undefined;
+                }
+                throw error;
+            }
+        }
+    );
+}
+
+/**
+ * Ask for a number of levels; resolves to Infinity for "unlimited" and undefined when cancelled
+ */
+async function pickDepth(placeHolder: string): Promise<number | undefined> {
+    const picked = await vscode.window.showQuickPick(
+        DEPTH_CHOICES.map(levels => ({ label: formatDepth(levels), levels })),
+        { placeHolder }
+    );
+    return picked?.levels;
+}
+
+/**
+ * Ask for an export format; resolves to undefined when cancelled
+ */
+async function pickExportFormat(): Promise<ExportFormat | undefined> {
+    const picked = await vscode.window.showQuickPick(
+        (Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => ({
+            label: EXPORT_FORMATS[format].label,
+            description: `.${EXPORT_FORMATS[format].extension}`,
+            format
+        })),
+        { placeHolder: 'Export the shown import map as' }
+    );
+    return picked?.format;
+}
+
+/**
+ * Ask for an image format; resolves to undefined when cancelled
+ */
+async function pickImageFormat(): Promise<ImageFormat | undefined> {
+    const picked = await vscode.window.showQuickPick<vscode.QuickPickItem & { format: ImageFormat }>(
+        [
+            { label: 'SVG', description: 'Vector image, sharp at any zoom', format: 'svg' },
+            { label: 'PNG', description: 'High-DPI bitmap', format: 'png' }
+        ],
+        { placeHolder: 'Save the import map as' }
+    );
+    return picked?.format;
 }
 
 export function deactivate() {} 
\ No newline at end of file
@@ -0,0 +1,198 @@
+import * as path from 'path';
+import { ImportKind } from './types';
+import { AstImportParser, ParsedImport, ParsedModule } from './astImportParser';
+import { ScriptExtractor, countLines } from './scriptExtractor';
+import { AssetReferenceParser, getAssetType } from './assetReferenceParser';
+import { NuxtAutoImportRegistry } from './nuxtAutoImports';
+import { ParsedFile } from './parseCache';
+
+/**
+ * FileParser turns the content of one file into its import specifiers, exports and asset
+ * references. It keeps no project state, so the same parse runs in the extension host
+ * and in the worker threads of ParserPool.
+ */
+export class FileParser {
+    private astParser = new AstImportParser();
+    private scriptExtractor = new ScriptExtractor();
+    private assetParser = new AssetReferenceParser();
+
+    /**
+     * Parse a stylesheet or script file into its specifiers as written, its exports and its asset references
+     *
+     * @param content - File content
+     * @param filePath - Path of the file; its extension picks the parser
+     * @param collectAutoImportNames - Also collect candidate Nuxt auto-import names (Nuxt projects only)
+     */
+    parse(content: string, filePath: string, collectAutoImportNames: boolean): ParsedFile {
+        if (getAssetType(filePath) === 'stylesheet') {
+            return { imports: [], exports: [], assetReferences: this.assetParser.parseStylesheet(content, filePath) };
+        }
+
+        const { imports, exports } = this.extractImports(content, filePath);
+        const isComponent = ['.vue', '.svelte', '.astro'].includes(path.extname(filePath));
+        return {
+            imports,
+            exports,
+            assetReferences: isComponent ? this.assetParser.parseComponent(content, filePath) : [],
+            autoImportNames: collectAutoImportNames ? NuxtAutoImportRegistry.collectNames(content, filePath) : undefined
+        };
+    }
+
+    private extractImports(content: string, filePath: string): ParsedModule {
+        const imports: ParsedImport[] = [];
+        const exports: string[] = [];
+
+        // Component and document formats (Vue, Svelte, Astro, MDX) only contribute their script blocks
+        for (const block of this.scriptExtractor.extract(content, filePath)) {
+            // Prefer AST-based parsing; fall back to regex for blocks that fail to parse
+            const parsedModule = this.astParser.parse(block.content, filePath, block.lang);
+            if (!parsedModule) {
+                imports.push(...this.extractImportsWithRegex(block.content)
+                    .map(parsed => ({ ...parsed, line: block.startLine + parsed.line! })));
+                continue;
+            }
+
+            for (const parsed of parsedModule.imports) {
+                imports.push({
+                    ...parsed,
+                    line: parsed.line !== undefined ? block.startLine + parsed.line : undefined
+                });
+            }
+            exports.push(...parsedModule.exports);
+        }
+
+        return { imports, exports };
+    }
+
+    private extractImportsWithRegex(content: string): ParsedImport[] {
+        const imports: ParsedImport[] = [];
+
+        // import type { Options } from './types'; import type Foo from './foo';
+        const typeImportPattern = /import\s+type\s+[\w*{][^'"`;]*?\s+from\s*['"`]([^'"`]+)['"`]/g;
+
+        // Enhanced regex patterns with more thorough matching
+        const importPatterns = [
+            // import { utils } from './utils';
+            /import\s*\{\s*([^}]*)\s*\}\s*from\s*['"`]([^'"`]+)['"`]/g,
+            // import * as fs from 'fs';
+            /import\s*\*\s*as\s+(\w+)\s+from\s*['"`]([^'"`]+)['"`]/g,
+            // import express from 'express';
+            /import\s+(\w+)\s+from\s*['"`]([^'"`]+)['"`]/g,
+            // import './style.css';
+            /import\s*['"`]([^'"`]+)['"`]/g
+        ];
+
+        // Dynamic import patterns for Vue components and lazy loading
+        const dynamicImportPatterns = [
+            // import('~/path') - also covers () => import('~/components/common/empty-data.vue')
+            /import\s*\(\s*['"`]([^'"`]+)['"`]\s*\)/g,
+            // require('~/assets/images/common/no-data.png')
+            /require\s*\(\s*['"`]([^'"`]+)['"`]\s*\)/g
+        ];
+
+        const reExportPatterns = [
+            // export { a, b as c } from './y'; export type { T } from './y';
+            /export\s*(type\s+)?\{\s*([^}]*)\s*\}\s*from\s*['"`]([^'"`]+)['"`]/g,
+            // export * from './x'; export * as ns from './x'; export type * from './x';
+            /export\s*(type\s+)?\*\s*(?:as\s+(\w+)\s+)?from\s*['"`]([^'"`]+)['"`]/g
+        ];
+
+        // Several patterns can match the same specifier, so remember where each one was found
+        const seenPositions = new Set<number>();
+        const addImport = (
+            match: RegExpExecArray,
+            source: string,
+            type: ImportKind,
+            importedNames?: string[],
+            exportedNames?: string[]
+        ) => {
+            const position = match.index + match[0].lastIndexOf(source);
+            if (seenPositions.has(position)) {
+                return;
+            }
+            seenPositions.add(position);
+            imports.push({ source, type, importedNames, exportedNames, line: countLines(content.substring(0, position)) });
+        };
+
+        // Type-only imports first, so the value patterns below skip their specifiers
+        let typeMatch;
+        while ((typeMatch = typeImportPattern.exec(content)) !== null) {
+            addImport(typeMatch, typeMatch[1], 'type');
+        }
+
+        // Process standard import patterns
+        importPatterns.forEach((pattern, index) => {
+            let match;
+            while ((match = pattern.exec(content)) !== null) {
+                // For patterns with 2 groups, source is in group 2, otherwise group 1
+                const source = match[2] || match[1];
+                addImport(match, source, this.getRegexImportKind(index, match), this.getRegexImportedNames(index, match));
+            }
+        });
+
+        // Process re-export patterns
+        reExportPatterns.forEach((pattern, index) => {
+            let match;
+            while ((match = pattern.exec(content)) !== null) {
+                // Type-only re-exports are erased at compile time, like `import type`
+                if (index === 0) {
+                    const specifiers = match[2].split(',').map(part => part.trim()).filter(Boolean);
+                    const typeOnly = !!match[1] || (specifiers.length > 0 && specifiers.every(part => /^type\s/.test(part)));
+                    const names = specifiers.map(part => part.replace(/^type\s+/, ''));
+                    const importedNames = names.map(part => part.split(/\s+as\s+/)[0]);
+                    const exportedNames = names.map(part => part.split(/\s+as\s+/).pop()!);
+                    addImport(match, match[3], typeOnly ? 'type' : 're-export', importedNames, exportedNames);
+                } else {
+                    addImport(match, match[3], match[1] ? 'type' : 're-export', ['*'], [match[2] || '*']);
+                }
+            }
+        });
+
+        // Process dynamic import and require patterns
+        dynamicImportPatterns.forEach((pattern) => {
+            let match;
+            while ((match = pattern.exec(content)) !== null) {
+                const importType = pattern.source.includes('require') ? 'require' : 'dynamic';
+                addImport(match, match[1], importType);
+            }
+        });
+
+        return imports;
+    }
+
+    /**
+     * Classify a regex match of one of the static import patterns
+     */
+    private getRegexImportKind(patternIndex: number, match: RegExpExecArray): ImportKind {
+        if (patternIndex === 3) {
+            return 'side-effect';
+        }
+        if (patternIndex === 0) {
+            const specifiers = match[1].split(',').map(part => part.trim()).filter(Boolean);
+            if (specifiers.length > 0 && specifiers.every(part => /^type\s/.test(part))) {
+                return 'type';
+            }
+        }
+        return 'import';
+    }
+
+    /**
+     * Derive imported binding names from a regex match of one of the static import patterns
+     */
+    private getRegexImportedNames(patternIndex: number, match: RegExpExecArray): string[] {
+        switch (patternIndex) {
+            case 0:
+                // { a, b as c } -> ['a', 'b']
+                return match[1]
+                    .split(',')
+                    .map(part => part.trim().replace(/^type\s+/, '').split(/\s+as\s+/)[0])
+                    .filter(Boolean);
+            case 1:
+                return ['*'];
+            case 2:
+                return ['default'];
+            default:
+                return [];
+        }
+    }
+}
@@ -0,0 +1,347 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Project-specific ignore file, in .gitignore syntax, for keeping files off the map without touching .gitignore
+ */
+export const IMPORT_MAP_IGNORE_FILE = '.importmapignore';
+
+/**
+ * A compiled ignore pattern. `regex` is tested against the path relative to `baseDir`,
+ * the directory of the file that declared the pattern.
+ */
+interface IgnoreRule {
+    regex: RegExp;
+    isNegation: boolean;
+    isDirectory: boolean;
+    baseDir: string;
+}
+
+/**
+ * Extra patterns (in .gitignore syntax, relative to the project root) from the user's settings
+ */
+export interface IgnoreOptions {
+    /** When non-empty, only files matching one of these patterns are analyzed */
+    include?: string[];
+    /** Files and folders matching these patterns are skipped */
+    exclude?: string[];
+}
+
+/**
+ * GitignoreParser decides which files and folders to skip, following git's rules:
+ * `.git/info/exclude`, the .gitignore of every directory from the repository root down
+ * (deeper files override shallower ones, the last matching pattern wins, and nothing inside
+ * an ignored folder can be re-included). The exclude globs from the settings and
+ * `.importmapignore` files are applied after .gitignore, and include globs restrict the scanned files.
+ */
+export class GitignoreParser {
+    private readonly repositoryRoot: string;
+    private readonly baseRules: IgnoreRule[] = [];
+    private readonly excludeRules: IgnoreRule[];
+    private readonly includeRules: IgnoreRule[];
+    private directoryRules = new Map<string, { gitignore: IgnoreRule[]; importMapIgnore: IgnoreRule[] }>();
+    private ignoredDirectories = new Map<string, boolean>();
+
+    constructor(public readonly projectRoot: string, options: IgnoreOptions = {}) {
+        this.repositoryRoot = this.findRepositoryRoot(projectRoot);
+        this.excludeRules = this.compilePatterns(options.exclude || [], projectRoot);
+        this.includeRules = this.compilePatterns(options.include || [], projectRoot);
+
+        const gitDir = this.findGitDir(this.repositoryRoot);
+        if (gitDir) {
+            this.baseRules.push(...this.loadRules(path.join(gitDir, 'info', 'exclude'), this.repositoryRoot));
+        }
+        console.log(`📝 Ignore rules: ${this.baseRules.length} from .git/info/exclude, ${this.excludeRules.length} exclude and ${this.includeRules.length} include globs`);
+    }
+
+    /**
+     * Number of patterns loaded so far (nested ignore files are read as directories are visited)
+     */
+    get patternCount(): number {
+        let count = this.baseRules.length + this.excludeRules.length + this.includeRules.length;
+        for (const rules of this.directoryRules.values()) {
+            count += rules.gitignore.length + rules.importMapIgnore.length;
+        }
+        return count;
+    }
+
+    /**
+     * Check if a file or directory should be ignored
+     *
+     * @param filePath - Absolute path
+     * @param isDirectory - Whether the path is a directory; looked up on disk when omitted
+     */
+    shouldIgnore(filePath: string, isDirectory?: boolean): boolean {
+        const relativePath = path.relative(this.projectRoot, filePath);
+        if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+            return false;
+        }
+        if (isDirectory === undefined) {
+            isDirectory = fs.existsSync(filePath) && fs.statSync(filePath).isDirectory();
+        }
+
+        // A file inside an ignored folder stays ignored, whatever negations follow
+        let parent = path.dirname(filePath);
+        const ancestors: string[] = [];
+        while (parent !== this.projectRoot && parent.startsWith(this.projectRoot)) {
+            ancestors.unshift(parent);
+            parent = path.dirname(parent);
+        }
+        if (ancestors.some(ancestor => this.isIgnoredDirectory(ancestor))) {
+            return true;
+        }
+
+        if (isDirectory) {
+            return this.isIgnoredDirectory(filePath);
+        }
+        // Include globs select files directly (src/**/*.ts) or through a folder (src, packages/*/src)
+        const included = this.includeRules.length === 0 || this.includeRules.some(rule =>
+            this.matches(rule, filePath, false) || ancestors.some(ancestor => this.matches(rule, ancestor, true))
+        );
+        if (!included) {
+            return true;
+        }
+        return this.isIgnoredEntry(filePath, false);
+    }
+
+    private isIgnoredDirectory(dirPath: string): boolean {
+        if (!this.ignoredDirectories.has(dirPath)) {
+            this.ignoredDirectories.set(dirPath, this.isIgnoredEntry(dirPath, true));
+        }
+        return this.ignoredDirectories.get(dirPath)!;
+    }
+
+    /**
+     * Apply every rule that can see the entry, in precedence order; the last match wins
+     */
+    private isIgnoredEntry(entryPath: string, isDirectory: boolean): boolean {
+        const directories: string[] = [];
+        for (let dir = path.dirname(entryPath); ; dir = path.dirname(dir)) {
+            directories.unshift(dir);
+            if (dir === this.repositoryRoot || path.dirname(dir) === dir) {
+                break;
+            }
+        }
+        const rulesByDirectory = directories.map(dir => this.getDirectoryRules(dir));
+
+        const rules = [
+            ...this.baseRules,
+            ...rulesByDirectory.flatMap(rules => rules.gitignore),
+            ...this.excludeRules,
+            ...rulesByDirectory.flatMap(rules => rules.importMapIgnore)
+        ];
+
+        let ignored = false;
+        for (const rule of rules) {
+            if (this.matches(rule, entryPath, isDirectory)) {
+                ignored = !rule.isNegation;
+            }
+        }
+        return ignored;
+    }
+
+    private matches(rule: IgnoreRule, entryPath: string, isDirectory: boolean): boolean {
+        if (rule.isDirectory && !isDirectory) {
+            return false;
+        }
+        const relativePath = path.relative(rule.baseDir, entryPath).split(path.sep).join('/');
+        return !relativePath.startsWith('..') && rule.regex.test(relativePath);
+    }
+
+    private getDirectoryRules(dir: string): { gitignore: IgnoreRule[]; importMapIgnore: IgnoreRule[] } {
+        if (!this.directoryRules.has(dir)) {
+            this.directoryRules.set(dir, {
+                gitignore: this.loadRules(path.join(dir, '.gitignore'), dir),
+                importMapIgnore: this.loadRules(path.join(dir, IMPORT_MAP_IGNORE_FILE), dir)
+            });
+        }
+        return this.directoryRules.get(dir)!;
+    }
+
+    private loadRules(filePath: string, baseDir: string): IgnoreRule[] {
+        if (!fs.existsSync(filePath)) {
+            return [];
+        }
+        try {
+            const rules = this.compilePatterns(fs.readFileSync(filePath, 'utf-8').split('\n'), baseDir);
+            console.log(`📝 Loaded ${rules.length} patterns from ${path.relative(this.repositoryRoot, filePath) || filePath}`);
+            return rules;
+        } catch (error) {
+            console.error(`❌ Error reading ${filePath}:`, error);
+            return [];
+        }
+    }
+
+    private compilePatterns(lines: string[], baseDir: string): IgnoreRule[] {
+        return lines
+            .map(line => this.compilePattern(line, baseDir))
+            .filter((rule): rule is IgnoreRule => rule !== null);
+    }
+
+    /**
+     * Compile one .gitignore line:
+     * - blank lines and `#` comments are skipped; `\#` and `\!` start a literal `#` or `!`
+     * - trailing spaces are dropped unless escaped with `\`
+     * - `!` negates, a trailing `/` only matches directories
+     * - a `/` at the start or in the middle anchors the pattern to the ignore file's directory,
+     *   otherwise it matches at any depth
+     * - `*`, `?` and `[...]` (with `[!...]` negation) never match `/`; `**` matches any number of
+     *   directories when it is a whole path segment (leading, trailing or between two slashes)
+     */
+    private compilePattern(line: string, baseDir: string): IgnoreRule | null {
+        let pattern = line.replace(/\r$/, '');
+        if (!pattern || pattern.startsWith('#')) {
+            return null;
+        }
+
+        // Trailing whitespace is ignored unless it is escaped
+        pattern = pattern.replace(/(^|[^\\])\s+$/, '$1');
+        if (!pattern) {
+            return null;
+        }
+
+        const isNegation = pattern.startsWith('!');
+        if (isNegation) {
+            pattern = pattern.substring(1);
+        }
+
+        const isDirectory = pattern.endsWith('/') && !pattern.endsWith('\\/');
+        if (isDirectory) {
+            pattern = pattern.replace(/\/+$/, '');
+        }
+        if (!pattern) {
+            return null;
+        }
+
+        const isAnchored = pattern.includes('/');
+        pattern = pattern.replace(/^\//, '');
+
+        let regex = '';
+        let index = 0;
+        while (index < pattern.length) {
+            const char = pattern[index];
+            if (char === '\\' && index + 1 < pattern.length) {
+                regex += this.escapeRegex(pattern[index + 1]);
+                index += 2;
+            } else if (char === '*' && pattern[index + 1] === '*') {
+                const atStart = index === 0;
+                const beforeSlash = atStart || pattern[index - 1] === '/';
+                const afterSlash = pattern[index + 2] === '/';
+                const atEnd = index + 2 === pattern.length;
+                if (atStart && afterSlash) {
+                    // **/foo matches foo in every directory
+                    regex += '(?:.*/)?';
+                    index += 3;
+                } else if (beforeSlash && afterSlash) {
+                    // a/**/b matches a/b, a/x/b, a/x/y/b
+                    regex += '(?:.*/)?';
+                    index += 3;
+                } else if (beforeSlash && atEnd) {
+                    // abc/** matches everything inside abc
+                    regex += '.+';
+                    index += 2;
+                } else {
+                    // Other consecutive asterisks are regular asterisks
+                    regex += '[^/]*';
+                    index = this.skipAsterisks(pattern, index);
+                }
+            } else if (char === '*') {
+                regex += '[^/]*';
+                index++;
+            } else if (char === '?') {
+                regex += '[^/]';
+                index++;
+            } else if (char === '[') {
+                const classEnd = this.findClassEnd(pattern, index);
+                if (classEnd === -1) {
+                    regex += '\\[';
+                    index++;
+                } else {
+                    regex += this.compileCharacterClass(pattern.substring(index + 1, classEnd));
+                    index = classEnd + 1;
+                }
+            } else {
+                regex += this.escapeRegex(char);
+                index++;
+            }
+        }
+
+        // Unanchored patterns match at any depth
+        const prefix = isAnchored ? '' : '(?:.*/)?';
+        return { regex: new RegExp(`^${prefix}${regex}$`), isNegation, isDirectory, baseDir };
+    }
+
+    private skipAsterisks(pattern: string, index: number): number {
+        while (pattern[index] === '*') {
+            index++;
+        }
+        return index;
+    }
+
+    /**
+     * Index of the `]` closing a character class opened at `start`; a `]` right after `[` or `[!` is literal
+     */
+    private findClassEnd(pattern: string, start: number): number {
+        let index = start + 1;
+        if (pattern[index] === '!' || pattern[index] === '^') {
+            index++;
+        }
+        if (pattern[index] === ']') {
+            index++;
+        }
+        while (index < pattern.length) {
+            if (pattern[index] === '\\') {
+                index += 2;
+                continue;
+            }
+            if (pattern[index] === ']') {
+                return index;
+            }
+            index++;
+        }
+        return -1;
+    }
+
+    private compileCharacterClass(body: string): string {
+        let negated = false;
+        if (body.startsWith('!') || body.startsWith('^')) {
+            negated = true;
+            body = body.substring(1);
+        }
+        const escaped = body.replace(/\\(.)/g, '$1').replace(/[\\\]^]/g, '\\$&');
+        return negated ? `[^/${escaped}]` : `[${escaped}]`;
+    }
+
+    private escapeRegex(text: string): string {
+        return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+
+    /**
+     * The enclosing git work tree (the nearest directory with `.git`), or the project root outside a repository
+     */
+    private findRepositoryRoot(projectRoot: string): string {
+        for (let dir = projectRoot; ; dir = path.dirname(dir)) {
+            if (fs.existsSync(path.join(dir, '.git'))) {
+                return dir;
+            }
+            if (path.dirname(dir) === dir) {
+                return projectRoot;
+            }
+        }
+    }
+
+    /**
+     * The git directory of a work tree; `.git` is a file pointing elsewhere in worktrees and submodules
+     */
+    private findGitDir(repositoryRoot: string): string | undefined {
+        const dotGit = path.join(repositoryRoot, '.git');
+        if (!fs.existsSync(dotGit)) {
+            return undefined;
+        }
+        if (fs.statSync(dotGit).isDirectory()) {
+            return dotGit;
+        }
+        const match = fs.readFileSync(dotGit, 'utf-8').match(/^gitdir:\s*(.+)$/m);
+        return match ? path.resolve(repositoryRoot, match[1].trim()) : undefined;
+    }
+}
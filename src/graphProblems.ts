@@ -0,0 +1,145 @@
+import { ImportMap, UnresolvedImport } from './types';
+
+/**
+ * A package imported without being declared in the importing package's package.json
+ */
+export interface UndeclaredImport {
+    filePath: string;
+    packageName: string;
+    source: string;
+    line?: number;
+}
+
+/**
+ * What can be wrong with an import graph; the CLI fails a build on the kinds it is asked to check
+ */
+export interface GraphProblems {
+    unresolved: UnresolvedImport[];
+    /** Groups of files importing each other, each in a stable order starting with its first path */
+    cycles: string[][];
+    undeclared: UndeclaredImport[];
+}
+
+export type GraphProblemKind = keyof GraphProblems;
+
+export const GRAPH_PROBLEM_KINDS: GraphProblemKind[] = ['unresolved', 'cycles', 'undeclared'];
+
+/**
+ * Collect every kind of problem of an import map
+ */
+export function collectGraphProblems(importMap: ImportMap): GraphProblems {
+    return {
+        unresolved: collectUnresolvedImports(importMap),
+        cycles: findImportCycles(importMap),
+        undeclared: collectUndeclaredImports(importMap)
+    };
+}
+
+/**
+ * Collect the broken relative, alias and asset imports of every analyzed file, in file and line order
+ */
+export function collectUnresolvedImports(importMap: ImportMap): UnresolvedImport[] {
+    const unresolved: UnresolvedImport[] = [];
+    for (const fileNode of importMap.files.values()) {
+        for (const importInfo of fileNode.imports) {
+            if (importInfo.unresolved) {
+                unresolved.push({
+                    filePath: fileNode.path,
+                    source: importInfo.source,
+                    line: importInfo.line,
+                    expectedPath: importInfo.resolvedPath
+                });
+            }
+        }
+    }
+    return unresolved.sort((a, b) => a.filePath.localeCompare(b.filePath) || (a.line ?? 0) - (b.line ?? 0));
+}
+
+/**
+ * Collect imports of packages that no package.json in scope declares, in file and line order
+ */
+export function collectUndeclaredImports(importMap: ImportMap): UndeclaredImport[] {
+    const undeclared: UndeclaredImport[] = [];
+    for (const fileNode of importMap.files.values()) {
+        for (const importInfo of fileNode.imports) {
+            if (importInfo.isNodeModule && importInfo.dependencyType === 'undeclared') {
+                undeclared.push({
+                    filePath: fileNode.path,
+                    packageName: importInfo.packageName || importInfo.source,
+                    source: importInfo.source,
+                    line: importInfo.line
+                });
+            }
+        }
+    }
+    return undeclared.sort((a, b) => a.filePath.localeCompare(b.filePath) || (a.line ?? 0) - (b.line ?? 0));
+}
+
+/**
+ * Find circular imports between the files of a map (strongly connected components of the
+ * import graph, found with Tarjan's algorithm). Type-only imports are skipped, as they are
+ * erased at build time and cannot cause a cycle at runtime.
+ */
+export function findImportCycles(importMap: ImportMap): string[][] {
+    const targets = new Map<string, string[]>();
+    for (const [filePath, fileNode] of importMap.files) {
+        targets.set(filePath, fileNode.imports
+            .filter(importInfo => !importInfo.isNodeModule && importInfo.type !== 'type' && importInfo.resolvedPath !== undefined && importMap.files.has(importInfo.resolvedPath))
+            .map(importInfo => importInfo.resolvedPath!));
+    }
+
+    const indexes = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const cycles: string[][] = [];
+
+    // Iterative depth-first search, so long import chains cannot overflow the call stack
+    for (const start of targets.keys()) {
+        if (indexes.has(start)) {
+            continue;
+        }
+        const frames: { filePath: string; next: number }[] = [{ filePath: start, next: 0 }];
+        while (frames.length > 0) {
+            const frame = frames[frames.length - 1];
+            if (frame.next === 0 && !indexes.has(frame.filePath)) {
+                indexes.set(frame.filePath, indexes.size);
+                lowLinks.set(frame.filePath, indexes.get(frame.filePath)!);
+                stack.push(frame.filePath);
+                onStack.add(frame.filePath);
+            }
+
+            const fileTargets = targets.get(frame.filePath)!;
+            if (frame.next < fileTargets.length) {
+                const target = fileTargets[frame.next++];
+                if (!indexes.has(target)) {
+                    frames.push({ filePath: target, next: 0 });
+                } else if (onStack.has(target)) {
+                    lowLinks.set(frame.filePath, Math.min(lowLinks.get(frame.filePath)!, indexes.get(target)!));
+                }
+                continue;
+            }
+
+            frames.pop();
+            if (frames.length > 0) {
+                const parent = frames[frames.length - 1].filePath;
+                lowLinks.set(parent, Math.min(lowLinks.get(parent)!, lowLinks.get(frame.filePath)!));
+            }
+            if (lowLinks.get(frame.filePath) === indexes.get(frame.filePath)) {
+                const component: string[] = [];
+                let member: string;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== frame.filePath);
+
+                if (component.length > 1 || fileTargets.includes(frame.filePath)) {
+                    cycles.push(component.sort());
+                }
+            }
+        }
+    }
+
+    return cycles.sort((a, b) => a[0].localeCompare(b[0]));
+}
@@ -1,6 +1,17 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { ImportMap, FileNode, ImportInfo } from './types';
+import { ImportMap, FileNode, ImportInfo, ImportKind, BarrelTarget, PackageInfo, WorkspaceRoot, AnalyzerSettings, AnalysisDepth, AnalysisOptions, AnalysisProgress, FileChanges, ImportMapUpdate } from './types';
+import { NuxtAutoImportRegistry } from './nuxtAutoImports';
+import { AssetReference, AssetReferenceParser, getAssetType } from './assetReferenceParser';
+import { TsconfigResolver } from './tsconfigResolver';
+import { BundlerAliasDetector } from './bundlerAliasDetector';
+import { PackageJsonResolver } from './packageJsonResolver';
+import { WorkspacePackageResolver, WorkspacePackage } from './workspacePackages';
+import { DependencyClassifier } from './dependencyClassifier';
+import { GitignoreParser } from './gitignoreParser';
+import { ParseCache } from './parseCache';
+import { ParserPool } from './parserPool';
+import { ImporterIndex } from './importerIndex';
 
 /**
  * Project type detection
@@ -13,169 +24,536 @@ enum ProjectType {
 }
 
 /**
- * GitignoreParser handles parsing .gitignore patterns and checking if files should be ignored
+ * TypeScript source extensions behind each emitted JavaScript extension.
+ * ESM TypeScript code names the emitted file (`./util.js`) while the source on disk is `./util.ts`.
  */
-class GitignoreParser {
-    private patterns: { pattern: string; isNegation: boolean; isDirectory: boolean }[] = [];
+const TS_SOURCE_EXTENSIONS: Record<string, string[]> = {
+    '.js': ['.ts', '.tsx'],
+    '.jsx': ['.tsx'],
+    '.mjs': ['.mts'],
+    '.cjs': ['.cts']
+};
 
-    constructor(public readonly projectRoot: string) {
-        this.loadGitignore();
+/**
+ * Extensions tried, in order, for extensionless specifiers and directory index files
+ */
+const RESOLVE_EXTENSIONS = ['.ts', '.js', '.tsx', '.jsx', '.mts', '.mjs', '.cts', '.cjs', '.vue', '.svelte'];
+
+/**
+ * Files whose changes can alter how any import resolves or which files are analyzed
+ */
+const CONFIG_FILE_PATTERN = /^(package\.json|[jt]sconfig(\..+)?\.json|\.gitignore|\.importmapignore|pnpm-workspace\.yaml|lerna\.json|(nuxt|vite|webpack|rollup|vue)\.config\.[cm]?[jt]s)$/;
+
+/**
+ * Files read and parsed at the same time; parsing itself is spread over the parser pool's workers
+ */
+const ANALYSIS_CONCURRENCY = 16;
+
+/**
+ * Minimum time between two partial results of a running analysis
+ */
+const PARTIAL_RESULT_INTERVAL_MS = 1000;
+
+/**
+ * Thrown by an analysis that was cancelled through AnalysisOptions.cancellation
+ */
+export class AnalysisCancelledError extends Error {
+    constructor() {
+        super('Import analysis cancelled');
+        this.name = 'AnalysisCancelledError';
     }
+}
+
+/**
+ * Defaults of the settings that are not auto-detected (kept in sync with package.json)
+ */
+export const DEFAULT_ANALYZER_SETTINGS: Required<Pick<AnalyzerSettings, 'ignoredDirectories' | 'buildDirectories' | 'depth'>> = {
+    ignoredDirectories: ['node_modules', '.git', 'dist', 'build', 'out', '.vscode', '.next', '.nuxt', '.output', '.svelte-kit'],
+    buildDirectories: ['dist', 'build', 'out', 'lib', '.next', 'coverage'],
+    depth: { importers: 1, dependencies: 1 }
+};
 
-    private loadGitignore(): void {
-        const gitignorePath = path.join(this.projectRoot, '.gitignore');
+export class ImportAnalyzer {
+    private supportedExtensions: string[] = [];
+    private projectType: ProjectType = ProjectType.MIXED;
+    private gitignoreParser: GitignoreParser | null = null;
+    private tsconfigResolver: TsconfigResolver | null = null;
+    private bundlerAliasDetector: BundlerAliasDetector | null = null;
+    private packageJsonResolver: PackageJsonResolver | null = null;
+    private resolutionConditions: string[] = ['node'];
+    private projectSettings = new Map<string, AnalyzerSettings>();
+    private settings: AnalyzerSettings = {};
+    private workspaceResolver: WorkspacePackageResolver | null = null;
+    private dependencyClassifier = new DependencyClassifier();
+    private projectRoot: string = '';
+    private nuxtSrcDir: string = 'src'; // Default srcDir for Nuxt
+    private nuxtAutoImports: NuxtAutoImportRegistry | null = null;
+    private barrelModuleCache = new Map<string, FileNode | null>();
+    private parseCache = new ParseCache();
+    private parserPool = new ParserPool();
+    /** Importer lookups per project root, kept current through updateImporterIndexes */
+    private importerIndexes = new Map<string, ImporterIndex>();
+
+    /**
+     * Analyze every file of a project
+     *
+     * @param projectRoot - Root directory of the project
+     * @param options - Progress, partial result and cancellation hooks
+     */
+    async analyzeProject(projectRoot: string, options: AnalysisOptions = {}): Promise<ImportMap> {
+        await this.initializeProject(projectRoot);
         
-        if (!fs.existsSync(gitignorePath)) {
-            console.log('📝 No .gitignore file found');
-            return;
-        }
+        const allFiles = await this.collectFiles(projectRoot, options);
 
-        try {
-            const content = fs.readFileSync(gitignorePath, 'utf-8');
-            const lines = content.split('\n');
-            
-            for (const line of lines) {
-                const trimmed = line.trim();
-                
-                // Skip empty lines and comments
-                if (!trimmed || trimmed.startsWith('#')) {
-                    continue;
-                }
+        // First pass: analyze all files
+        const files = await this.analyzeFiles(allFiles, projectRoot, options, partialFiles =>
+            this.reportPartialResult(partialFiles, { packages: this.getWorkspacePackages() }, options)
+        );
 
-                const isNegation = trimmed.startsWith('!');
-                const isDirectory = trimmed.endsWith('/');
-                let pattern = trimmed;
+        await this.addReferencedAssets(files, projectRoot);
 
-                if (isNegation) {
-                    pattern = pattern.substring(1);
-                }
+        // Second pass: build importedBy relationships
+        this.buildImportedBy(files);
 
-                if (isDirectory) {
-                    pattern = pattern.substring(0, pattern.length - 1);
-                }
+        await this.resolveBarrelImports(files, projectRoot);
+        await this.parseCache.prune();
+        this.parseCache.save();
+        this.importerIndexes.set(projectRoot, new ImporterIndex(new Map(files)));
+
+        return { files, packages: this.getWorkspacePackages() };
+    }
 
-                this.patterns.push({ pattern, isNegation, isDirectory });
+    /**
+     * Analyze every folder of a multi-root workspace into a single import map.
+     * Each folder is analyzed with its own configs, and the package.json of every folder
+     * is linked so imports by package name can cross folders.
+     *
+     * @param roots - Workspace folders, as display name and absolute path
+     * @param options - Progress, partial result and cancellation hooks
+     */
+    async analyzeWorkspace(roots: WorkspaceRoot[], options: AnalysisOptions = {}): Promise<ImportMap> {
+        const files = new Map<string, FileNode>();
+        const packages = new Map<string, PackageInfo>();
+        const rootPackages = roots
+            .map(root => WorkspacePackageResolver.readPackage(root.path))
+            .filter((rootPackage): rootPackage is WorkspacePackage => !!rootPackage);
+
+        // Nested folders first, so their files are analyzed with their own configs
+        const orderedRoots = [...roots].sort((a, b) => b.path.length - a.path.length);
+        const progress: AnalysisProgress = { analyzedFiles: 0, totalFiles: 0 };
+
+        for (const root of orderedRoots) {
+            console.log(`🗂️  Analyzing workspace folder: ${root.name}`);
+            await this.initializeProject(root.path);
+            this.workspaceResolver!.addPackages(rootPackages);
+
+            const rootFiles = (await this.collectFiles(root.path, options)).filter(filePath => !files.has(filePath));
+            progress.totalFiles += rootFiles.length;
+            const analyzedFiles = await this.analyzeFiles(rootFiles, root.path, options, partialFiles => {
+                partialFiles.forEach(fileNode => fileNode.workspaceRoot = root.name);
+                this.reportPartialResult(new Map([...files, ...partialFiles]), { packages: Array.from(packages.values()), roots }, options);
+            }, progress);
+            for (const [filePath, fileNode] of analyzedFiles) {
+                fileNode.workspaceRoot = root.name;
+                files.set(filePath, fileNode);
+            }
+
+            // Assets and barrels reached from this folder resolve their imports with its configs, while they are active
+            await this.addReferencedAssets(files, root.path, analyzedFiles.values());
+            await this.resolveBarrelImports(files, root.path, analyzedFiles.values());
+
+            for (const workspacePackage of this.getWorkspacePackages()) {
+                packages.set(workspacePackage.dir, workspacePackage);
             }
-            
-            console.log(`📝 Loaded ${this.patterns.length} .gitignore patterns`);
-        } catch (error) {
-            console.error('❌ Error reading .gitignore:', error);
         }
+
+        this.buildImportedBy(files);
+        await this.parseCache.prune();
+        this.parseCache.save();
+
+        return { files, packages: Array.from(packages.values()), roots };
     }
 
     /**
-     * Check if a file or directory should be ignored based on .gitignore patterns
+     * Apply created, changed and deleted files to a project map in place. Only the touched files are
+     * analyzed again, together with the files whose imports may now resolve differently (importers of
+     * deleted files, unresolved imports and imports next to created files); importedBy back-references
+     * and barrel targets are then rebuilt for the whole map.
+     *
+     * @param importMap - Map to update; patched in place when it comes from analyzeProject
+     * @param projectRoot - Root the map was analyzed from
+     * @param changes - Touched files and folders
      */
-    shouldIgnore(filePath: string): boolean {
-        const relativePath = path.relative(this.projectRoot, filePath);
-        const isDirectory = fs.existsSync(filePath) && fs.statSync(filePath).isDirectory();
-        
-        let shouldIgnore = false;
+    async updateImportMap(importMap: ImportMap, projectRoot: string, changes: FileChanges): Promise<ImportMapUpdate> {
+        const roots = importMap.roots?.map(root => root.path) || [projectRoot];
+        const update = await this.patchFiles(importMap.files, projectRoot, changes, roots, !importMap.entryFile && !importMap.roots);
+        if (update !== 'patched') {
+            return update;
+        }
+
+        // Back-references and barrel targets can change for files that were not analyzed again
+        for (const fileNode of importMap.files.values()) {
+            fileNode.imports.forEach(importInfo => delete importInfo.barrelTargets);
+        }
+        this.buildImportedBy(importMap.files);
+        await this.resolveBarrelImports(importMap.files, projectRoot);
+        this.parseCache.save();
+        return 'patched';
+    }
 
-        for (const { pattern, isNegation, isDirectory: patternIsDirectory } of this.patterns) {
-            // Skip directory patterns if checking a file, and vice versa
-            if (patternIsDirectory && !isDirectory) {
+    /**
+     * Apply file changes to the importer index of every project analyzed so far. An index whose
+     * project configuration changed is dropped and built again when it is needed next.
+     *
+     * @param changes - Touched files and folders
+     */
+    async updateImporterIndexes(changes: FileChanges): Promise<void> {
+        for (const [projectRoot, index] of Array.from(this.importerIndexes)) {
+            if (![...changes.changed, ...changes.deleted].some(changedPath => changedPath.startsWith(projectRoot + path.sep))) {
                 continue;
             }
-
-            const matches = this.matchesPattern(relativePath, pattern);
-            
-            if (matches) {
-                shouldIgnore = !isNegation;
+            const update = await this.patchFiles(index.files, projectRoot, changes, [projectRoot], true);
+            if (update === 'patched') {
+                index.rebuild();
+            } else if (update === 'reanalyze') {
+                this.importerIndexes.delete(projectRoot);
             }
         }
-
-        return shouldIgnore;
     }
 
-    private matchesPattern(filePath: string, pattern: string): boolean {
-        // Convert gitignore pattern to regex
-        // Handle basic patterns - could be enhanced for more complex gitignore syntax
-        
-        // Normalize paths
-        const normalizedPath = filePath.replace(/\\/g, '/');
-        const normalizedPattern = pattern.replace(/\\/g, '/');
-        
-        // Handle absolute patterns (starting with /)
-        if (normalizedPattern.startsWith('/')) {
-            const absolutePattern = normalizedPattern.substring(1);
-            return this.globMatch(normalizedPath, absolutePattern);
+    /**
+     * Analyze the touched files of a map again, together with the files whose imports may now resolve
+     * differently, and drop deleted ones. The back-references of the files are left as they were.
+     *
+     * @param files - Analyzed files to patch in place
+     * @param projectRoot - Root the files were analyzed from
+     * @param changes - Touched files and folders
+     * @param roots - Folders whose files belong to the map
+     * @param canPatch - Whether the files stay complete when patched; other maps are only checked for relevant changes
+     */
+    private async patchFiles(files: Map<string, FileNode>, projectRoot: string, changes: FileChanges, roots: string[], canPatch: boolean): Promise<ImportMapUpdate> {
+        const isInProject = (changedPath: string) => roots.some(root => changedPath.startsWith(root + path.sep));
+
+        if ([...changes.changed, ...changes.deleted].some(changedPath => isInProject(changedPath) && CONFIG_FILE_PATTERN.test(path.basename(changedPath)))) {
+            console.log('🔄 Configuration changed, analyzing again');
+            return 'reanalyze';
         }
-        
-        // Handle patterns that should match at any level
-        // Check if the pattern matches the full path or any segment
-        const pathSegments = normalizedPath.split('/');
-        
-        // Check full path match
-        if (this.globMatch(normalizedPath, normalizedPattern)) {
-            return true;
+        if (this.projectRoot !== projectRoot) {
+            await this.initializeProject(projectRoot);
         }
-        
-        // Check if pattern matches any segment or suffix
-        for (let i = 0; i < pathSegments.length; i++) {
-            const suffix = pathSegments.slice(i).join('/');
-            if (this.globMatch(suffix, normalizedPattern)) {
-                return true;
+
+        // Deleted files of the map, including the contents of deleted folders
+        const deleted = new Set<string>();
+        for (const deletedPath of changes.deleted) {
+            for (const filePath of files.keys()) {
+                if (filePath === deletedPath || filePath.startsWith(deletedPath + path.sep)) {
+                    deleted.add(filePath);
+                }
             }
         }
-        
-        return false;
-    }
+        deleted.forEach(filePath => this.parseCache.delete(filePath));
 
-    private globMatch(text: string, pattern: string): boolean {
-        // Simple glob matching - converts * to .* and ? to .
-        const regexPattern = pattern
-            .replace(/[.+^${}()|[\]\\]/g, '\\$&') // Escape regex special chars
-            .replace(/\*/g, '.*') // * matches any characters
-            .replace(/\?/g, '.'); // ? matches single character
-        
-        const regex = new RegExp(`^${regexPattern}$`);
-        return regex.test(text);
-    }
-}
+        // Changed files of the map, and new files (or the files of new folders) the scan would pick up
+        const changed = new Set<string>();
+        for (const changedPath of changes.changed) {
+            let stats: fs.Stats;
+            try {
+                stats = await fs.promises.stat(changedPath);
+            } catch (error) {
+                continue;
+            }
+            if (files.has(changedPath)) {
+                changed.add(changedPath);
+            } else if (stats.isDirectory()) {
+                if (isInProject(changedPath) && !this.isIgnoredPath(changedPath, true)) {
+                    (await this.collectFiles(changedPath)).forEach(filePath => changed.add(filePath));
+                }
+            } else if (isInProject(changedPath) && !this.isIgnoredPath(changedPath, false)) {
+                changed.add(changedPath);
+            }
+        }
 
-export class ImportAnalyzer {
-    private supportedExtensions: string[] = [];
-    private projectType: ProjectType = ProjectType.MIXED;
-    private gitignoreParser: GitignoreParser | null = null;
-    private projectRoot: string = '';
-    private nuxtSrcDir: string = 'src'; // Default srcDir for Nuxt
+        if (deleted.size === 0 && changed.size === 0) {
+            return 'none';
+        }
+        const created = Array.from(changed).filter(filePath => !files.has(filePath));
 
-    async analyzeProject(projectRoot: string): Promise<ImportMap> {
-        // Initialize project analysis
-        this.projectRoot = projectRoot;
-        this.nuxtSrcDir = this.detectNuxtSrcDir(projectRoot);
-        this.projectType = this.detectProjectType(projectRoot);
-        this.supportedExtensions = this.getSupportedExtensions();
-        this.gitignoreParser = new GitignoreParser(projectRoot);
-        
-        console.log(`🔍 Detected project type: ${this.projectType}`);
-        console.log(`📁 Supported extensions: ${this.supportedExtensions.join(', ')}`);
-        
-        const files = new Map<string, FileNode>();
-        const allFiles = this.getAllFiles(projectRoot);
+        // Which files are in a current-file map depends on the depth around it, and Nuxt auto-imports
+        // on the files present, so these are analyzed again (only touched files are parsed again)
+        if (!canPatch || (this.nuxtAutoImports && (created.length > 0 || deleted.size > 0))) {
+            return 'reanalyze';
+        }
 
-        // First pass: analyze all files
-        for (const filePath of allFiles) {
+        deleted.forEach(filePath => files.delete(filePath));
+
+        // `./utils` may now point at a new `utils.ts` (or no longer at a deleted one), and a new
+        // file can turn a bare specifier mistaken for a package into a baseUrl import
+        const stripExtension = (filePath: string) => filePath.slice(0, filePath.length - path.extname(filePath).length);
+        const mayResolveToCreated = (resolvedPath: string) => created.some(createdPath =>
+            path.dirname(createdPath) === path.dirname(resolvedPath) || stripExtension(createdPath) === path.dirname(resolvedPath)
+        );
+        const affected = new Set(changed);
+        for (const [filePath, fileNode] of files) {
+            const isAffected = fileNode.imports.some(importInfo =>
+                (importInfo.resolvedPath !== undefined && deleted.has(importInfo.resolvedPath)) ||
+                (created.length > 0 && (
+                    importInfo.unresolved ||
+                    importInfo.dependencyType === 'undeclared' ||
+                    (importInfo.resolvedPath !== undefined && mayResolveToCreated(importInfo.resolvedPath))
+                ))
+            );
+            if (isAffected) {
+                affected.add(filePath);
+            }
+        }
+
+        for (const filePath of affected) {
             const fileNode = await this.analyzeFileContent(filePath, projectRoot);
             if (fileNode) {
                 files.set(filePath, fileNode);
+            } else {
+                files.delete(filePath);
             }
         }
+        await this.addReferencedAssets(files, projectRoot);
 
-        // Second pass: build importedBy relationships
+        console.log(`🔄 Updated import map: ${changed.size} changed, ${deleted.size} deleted, ${affected.size - changed.size} importers resolved again`);
+        return 'patched';
+    }
+
+    /**
+     * Analyze files a few at a time: reads are asynchronous and parsing runs on the parser pool,
+     * so the calling thread stays responsive. Results keep the order of `filePaths`.
+     *
+     * @param filePaths - Files to analyze
+     * @param projectRoot - Root of the project the files belong to
+     * @param options - Progress and cancellation hooks
+     * @param onPartialResult - Called at most every PARTIAL_RESULT_INTERVAL_MS with the files analyzed so far
+     * @param progress - Counter shared by several calls (workspace folders); counts `filePaths` alone by default
+     */
+    private async analyzeFiles(
+        filePaths: string[],
+        projectRoot: string,
+        options: AnalysisOptions,
+        onPartialResult?: (files: Map<string, FileNode>) => void,
+        progress: AnalysisProgress = { analyzedFiles: 0, totalFiles: filePaths.length }
+    ): Promise<Map<string, FileNode>> {
+        const fileNodes: (FileNode | null)[] = [];
+        const collect = () => {
+            const files = new Map<string, FileNode>();
+            fileNodes.forEach((fileNode, index) => fileNode && files.set(filePaths[index], fileNode));
+            return files;
+        };
+
+        let nextIndex = 0;
+        let lastPartialResult = Date.now();
+        const analyzeNext = async () => {
+            while (nextIndex < filePaths.length) {
+                this.throwIfCancelled(options);
+                const index = nextIndex++;
+                fileNodes[index] = await this.analyzeFileContent(filePaths[index], projectRoot);
+
+                progress.analyzedFiles++;
+                options.onProgress?.({ ...progress });
+                if (onPartialResult && Date.now() - lastPartialResult >= PARTIAL_RESULT_INTERVAL_MS) {
+                    onPartialResult(collect());
+                    lastPartialResult = Date.now();
+                }
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(ANALYSIS_CONCURRENCY, filePaths.length) }, analyzeNext));
+        this.throwIfCancelled(options);
+
+        return collect();
+    }
+
+    /**
+     * Copy an indexed file node for a map of its own, without the back-references and barrel targets of its previous map
+     */
+    private copyFileNode(fileNode: FileNode): FileNode {
+        return {
+            ...fileNode,
+            imports: fileNode.imports.map(({ barrelTargets, ...importInfo }) => importInfo),
+            importedBy: []
+        };
+    }
+
+    /**
+     * Hand the files analyzed so far to AnalysisOptions.onPartialResult, with their back-references
+     */
+    private reportPartialResult(files: Map<string, FileNode>, importMap: Omit<ImportMap, 'files'>, options: AnalysisOptions): void {
+        if (!options.onPartialResult) {
+            return;
+        }
+        this.buildImportedBy(files);
+        console.log(`⏳ Partial result: ${files.size} files`);
+        options.onPartialResult({ ...importMap, files });
+    }
+
+    private throwIfCancelled(options: AnalysisOptions): void {
+        if (options.cancellation?.isCancellationRequested) {
+            throw new AnalysisCancelledError();
+        }
+    }
+
+    /**
+     * Whether the project scan skips a path: ignored directory names, ignore rules,
+     * unsupported extensions and compiled output
+     */
+    private isIgnoredPath(filePath: string, isDirectory: boolean): boolean {
+        const segments = path.relative(this.projectRoot, filePath).split(path.sep);
+        const directories = isDirectory ? segments : segments.slice(0, -1);
+        if (directories.some(segment => this.shouldIgnoreDirectory(segment))) {
+            return true;
+        }
+        if (this.gitignoreParser && this.gitignoreParser.shouldIgnore(filePath, isDirectory)) {
+            return true;
+        }
+        return !isDirectory && (!(this.isSupportedFile(filePath) || this.isScannedAsset(filePath)) || this.isCompiledFile(filePath));
+    }
+
+    /**
+     * Add nodes for referenced assets that the file scan does not pick up on its own (JSON files),
+     * so imports of them show up as edges
+     *
+     * @param sources - Files whose references are followed; every file of the map by default
+     */
+    private async addReferencedAssets(files: Map<string, FileNode>, projectRoot: string, sources: Iterable<FileNode> = files.values()): Promise<void> {
+        const pending = Array.from(sources);
+        while (pending.length > 0) {
+            const fileNode = pending.pop()!;
+            for (const importInfo of fileNode.imports) {
+                const target = importInfo.resolvedPath;
+                if (importInfo.isNodeModule || !target || files.has(target) || !getAssetType(target) || !fs.existsSync(target)) {
+                    continue;
+                }
+                const assetNode = await this.analyzeFileContent(target, projectRoot);
+                if (assetNode) {
+                    files.set(target, assetNode);
+                    pending.push(assetNode);
+                }
+            }
+        }
+    }
+
+    /**
+     * Fill in importedBy back-references from the imports of every file in the map
+     */
+    private buildImportedBy(files: Map<string, FileNode>): void {
+        for (const fileNode of files.values()) {
+            fileNode.importedBy = [];
+        }
         for (const [filePath, fileNode] of files) {
             for (const importInfo of fileNode.imports) {
                 if (!importInfo.isNodeModule && importInfo.resolvedPath) {
                     const targetFile = files.get(importInfo.resolvedPath);
-                    if (targetFile) {
+                    if (targetFile && !targetFile.importedBy.includes(filePath)) {
                         targetFile.importedBy.push(filePath);
                     }
                 }
             }
         }
+    }
+
+    /**
+     * Initialize project analysis: detect project settings and reset per-project resolvers
+     */
+    private async initializeProject(projectRoot: string): Promise<void> {
+        this.projectRoot = projectRoot;
+        this.settings = this.projectSettings.get(projectRoot) || {};
+        this.nuxtSrcDir = this.detectNuxtSrcDir(projectRoot);
+        this.projectType = this.detectProjectType(projectRoot);
+        this.supportedExtensions = this.getSupportedExtensions();
+        this.gitignoreParser = new GitignoreParser(projectRoot, this.settings);
+        this.tsconfigResolver = new TsconfigResolver(projectRoot);
+        this.bundlerAliasDetector = new BundlerAliasDetector(projectRoot);
+        this.packageJsonResolver = new PackageJsonResolver(this.resolutionConditions);
+        this.workspaceResolver = new WorkspacePackageResolver(projectRoot, this.packageJsonResolver);
+        this.dependencyClassifier = new DependencyClassifier();
+        // Composables and utils are parsed like any other file, so their results are cached for the analysis
+        this.nuxtAutoImports = await NuxtAutoImportRegistry.detect(
+            projectRoot,
+            this.nuxtSrcDir,
+            filePath => this.parseCache.get(filePath, content => this.parserPool.parse(content, filePath, true))
+        );
+        
+        console.log(`🔍 Detected project type: ${this.projectType}`);
+        console.log(`📁 Supported extensions: ${this.supportedExtensions.join(', ')}`);
+    }
+
+    /**
+     * Set the conditions used for conditional package.json `imports`/`exports` maps.
+     * `import` or `require` is always added based on how each module is loaded.
+     */
+    setResolutionConditions(conditions: string[]): void {
+        this.resolutionConditions = conditions;
+        this.importerIndexes.clear();
+    }
+
+    /**
+     * Use a cache of parse results shared across analyses (e.g. one persisted in extension storage)
+     */
+    setParseCache(parseCache: ParseCache): void {
+        this.parseCache = parseCache;
+    }
+
+    /**
+     * Parse files on a shared pool of worker threads (e.g. one disposed with the extension)
+     */
+    setParserPool(parserPool: ParserPool): void {
+        this.parserPool = parserPool;
+    }
+
+    /**
+     * Set the analysis settings of a project; they apply from its next analysis
+     */
+    setProjectSettings(projectRoot: string, settings: AnalyzerSettings): void {
+        // The depth only picks files around the current one; other settings change what the index holds
+        const previous = this.projectSettings.get(projectRoot);
+        if (previous && JSON.stringify({ ...previous, depth: undefined }) !== JSON.stringify({ ...settings, depth: undefined })) {
+            this.importerIndexes.delete(projectRoot);
+        }
+        this.projectSettings.set(projectRoot, settings);
+    }
 
-        return { files };
+    /**
+     * Files importing a file, looked up in the importer index of its project; the first lookup
+     * in a project analyzes every file of it to build the index
+     *
+     * @param filePath - Absolute path of the imported file
+     * @param projectRoot - Root of the project the file belongs to
+     * @param options - Progress and cancellation hooks for building the index
+     */
+    async getImporters(filePath: string, projectRoot: string, options: AnalysisOptions = {}): Promise<string[]> {
+        let index = this.importerIndexes.get(projectRoot);
+        if (!index) {
+            await this.initializeProject(projectRoot);
+            // The index is used as built: settings changes may drop it from importerIndexes meanwhile
+            index = await this.getImporterIndex(projectRoot, options);
+            this.parseCache.save();
+        }
+        return index.getImporters(filePath);
+    }
+
+    /**
+     * The importer index of the initialized project, built from every project file when missing
+     */
+    private async getImporterIndex(projectRoot: string, options: AnalysisOptions): Promise<ImporterIndex> {
+        let index = this.importerIndexes.get(projectRoot);
+        if (!index) {
+            const projectFiles = await this.collectFiles(projectRoot, options);
+            index = new ImporterIndex(await this.analyzeFiles(projectFiles, projectRoot, options));
+            this.importerIndexes.set(projectRoot, index);
+            console.log(`🗂️  Built importer index: ${index.files.size} files`);
+        }
+        return index;
+    }
+
+    /**
+     * Packages of the npm/yarn/pnpm workspace, as name and directory
+     */
+    private getWorkspacePackages(): PackageInfo[] {
+        return (this.workspaceResolver?.getPackages() || []).map(({ name, dir }) => ({ name, dir }));
     }
 
     /**
@@ -186,23 +564,23 @@ export class ImportAnalyzer {
             return { patternsLoaded: 0, hasGitignore: false };
         }
         return {
-            patternsLoaded: this.gitignoreParser['patterns'].length,
+            patternsLoaded: this.gitignoreParser.patternCount,
             hasGitignore: true
         };
     }
 
-    async analyzeFile(filePath: string, projectRoot: string): Promise<ImportMap> {
-        console.log(`🎯 Analyzing 2-level imports for: ${path.basename(filePath)}`);
-        
-        // Initialize project analysis
-        this.projectRoot = projectRoot;
-        this.nuxtSrcDir = this.detectNuxtSrcDir(projectRoot);
-        this.projectType = this.detectProjectType(projectRoot);
-        this.supportedExtensions = this.getSupportedExtensions();
-        this.gitignoreParser = new GitignoreParser(projectRoot);
-        
-        console.log(`🔍 Detected project type: ${this.projectType}`);
-        console.log(`📁 Supported extensions: ${this.supportedExtensions.join(', ')}`);
+    /**
+     * Analyze a file together with its importers and dependencies
+     *
+     * @param filePath - The focused file
+     * @param projectRoot - Root of the project the file belongs to
+     * @param depth - Levels of importers and dependencies to follow; defaults to the depth setting
+     * @param options - Progress and cancellation hooks (current-file maps have no partial results)
+     */
+    async analyzeFile(filePath: string, projectRoot: string, depth?: AnalysisDepth, options: AnalysisOptions = {}): Promise<ImportMap> {
+        await this.initializeProject(projectRoot);
+        depth = depth || this.settings.depth || DEFAULT_ANALYZER_SETTINGS.depth;
+        console.log(`🎯 Analyzing imports around: ${path.basename(filePath)} (importer depth ${depth.importers}, dependency depth ${depth.dependencies})`);
         
         const files = new Map<string, FileNode>();
         
@@ -210,48 +588,57 @@ export class ImportAnalyzer {
         const currentFileNode = await this.analyzeFileContent(filePath, projectRoot);
         if (!currentFileNode) {
             console.log(`❌ Could not analyze current file`);
-            return { files, entryFile: filePath };
+            return { files, entryFile: filePath, packages: this.getWorkspacePackages(), depth };
         }
         
         files.set(filePath, currentFileNode);
         console.log(`✅ Current: ${path.basename(filePath)}`);
         
-        // Step 2: Find ALL files that import the current file (Level 1)
-        const allProjectFiles = this.getAllFiles(projectRoot);
+        // Step 2: The project's importer index, built by analyzing all project files once
+        const index = await this.getImporterIndex(projectRoot, options);
         
-        for (const projectFilePath of allProjectFiles) {
-            if (projectFilePath === filePath || files.has(projectFilePath)) continue;
-            
-            const projectFileNode = await this.analyzeFileContent(projectFilePath, projectRoot);
-            if (!projectFileNode) continue;
-            
-            // Check if this file imports our current file
-            const importsCurrentFile = projectFileNode.imports.some(imp => 
-                !imp.isNodeModule && 
-                imp.resolvedPath === filePath
-            );
-            
-            if (importsCurrentFile) {
-                files.set(projectFilePath, projectFileNode);
-                currentFileNode.importedBy.push(projectFilePath);
-                console.log(`✅ Level 1 (importer): ${path.basename(projectFilePath)}`);
+        // Step 3: Files importing the current file, then files importing those, up to the importer depth
+        let level = new Set([filePath]);
+        for (let distance = 1; distance <= depth.importers && level.size > 0; distance++) {
+            const nextLevel = new Set<string>();
+            for (const levelFilePath of level) {
+                for (const importerPath of index.getImporters(levelFilePath)) {
+                    if (files.has(importerPath)) continue;
+
+                    files.set(importerPath, this.copyFileNode(index.getFile(importerPath)!));
+                    nextLevel.add(importerPath);
+                    console.log(`✅ Level ${distance} (importer): ${path.basename(importerPath)}`);
+                }
             }
+            level = nextLevel;
         }
         
-        // Step 3: Analyze ALL files that current file imports (Level 2)
-        for (const importInfo of currentFileNode.imports) {
-            if (!importInfo.isNodeModule && importInfo.resolvedPath) {
-                if (!files.has(importInfo.resolvedPath)) {
-                    const dependencyNode = await this.analyzeFileContent(importInfo.resolvedPath, projectRoot);
+        // Step 4: Files the current file imports, then their imports, up to the dependency depth
+        level = new Set([filePath]);
+        for (let distance = 1; distance <= depth.dependencies && level.size > 0; distance++) {
+            const nextLevel = new Set<string>();
+            for (const levelFilePath of level) {
+                for (const importInfo of files.get(levelFilePath)!.imports) {
+                    if (importInfo.isNodeModule || importInfo.unresolved || !importInfo.resolvedPath || files.has(importInfo.resolvedPath)) {
+                        continue;
+                    }
+                    const indexedNode = index.getFile(importInfo.resolvedPath);
+                    const dependencyNode = indexedNode ? this.copyFileNode(indexedNode) :
+                        await this.analyzeFileContent(importInfo.resolvedPath, projectRoot);
                     if (dependencyNode) {
                         files.set(importInfo.resolvedPath, dependencyNode);
-                        dependencyNode.importedBy.push(filePath);
-                        console.log(`✅ Level 2 (dependency): ${path.basename(importInfo.resolvedPath)}`);
+                        nextLevel.add(importInfo.resolvedPath);
+                        console.log(`✅ Level ${distance} (dependency): ${path.basename(importInfo.resolvedPath)}`);
                     }
                 }
             }
+            level = nextLevel;
         }
         
+        this.buildImportedBy(files);
+        await this.resolveBarrelImports(files, projectRoot);
+        this.parseCache.save();
+
         console.log(`📊 Total files: ${files.size} | Files: ${Array.from(files.keys()).map(p => path.basename(p)).join(', ')}`);
         
         // Log gitignore stats
@@ -260,7 +647,7 @@ export class ImportAnalyzer {
             console.log(`📝 Gitignore: ${gitignoreStats.patternsLoaded} patterns loaded`);
         }
         
-        return { files, entryFile: filePath };
+        return { files, entryFile: filePath, packages: this.getWorkspacePackages(), depth };
     }
 
     /**
@@ -382,15 +769,39 @@ export class ImportAnalyzer {
 
     private async analyzeFileContent(filePath: string, projectRoot: string): Promise<FileNode | null> {
         try {
-            const content = fs.readFileSync(filePath, 'utf-8');
-            const imports = this.extractImports(content, filePath, projectRoot);
+            const assetType = getAssetType(filePath);
+            const fileDir = path.dirname(filePath);
+            let imports: ImportInfo[] = [];
+            let exports: string[] = [];
+
+            // Only stylesheets and scripts reference other files. Their parse results come from the cache
+            // when the file is unchanged; specifiers are resolved on every analysis, as resolution depends on other files.
+            if (assetType === 'stylesheet' || !assetType) {
+                const parsed = await this.parseCache.get(
+                    filePath,
+                    content => this.parserPool.parse(content, filePath, !!this.nuxtAutoImports),
+                    cached => !this.nuxtAutoImports || assetType !== undefined || cached.autoImportNames !== undefined
+                );
+                imports = parsed.imports.map(parsedImport => ({
+                    ...this.createImportInfo(parsedImport.source, fileDir, projectRoot, parsedImport.type, parsedImport.importedNames, parsedImport.exportedNames),
+                    line: parsedImport.line
+                }));
+                if (this.nuxtAutoImports && parsed.autoImportNames) {
+                    imports.push(...this.nuxtAutoImports.findUsages(parsed.autoImportNames, filePath, imports));
+                }
+                imports.push(...parsed.assetReferences.map(reference => this.createAssetImportInfo(reference, fileDir, projectRoot)));
+                exports = parsed.exports;
+            }
 
             return {
                 path: filePath,
                 name: path.basename(filePath),
                 imports,
                 importedBy: [],
-                isNodeModule: false
+                isNodeModule: false,
+                exports,
+                packageName: this.workspaceResolver?.getPackageForFile(filePath)?.name,
+                assetType
             };
         } catch (error) {
             console.error(`❌ Error analyzing ${path.basename(filePath)}:`, error);
@@ -398,111 +809,63 @@ export class ImportAnalyzer {
         }
     }
 
-    private extractImports(content: string, filePath: string, projectRoot: string): ImportInfo[] {
-        const imports: ImportInfo[] = [];
-        const fileDir = path.dirname(filePath);
+    private createImportInfo(
+        source: string, 
+        fileDir: string, 
+        projectRoot: string, 
+        type: ImportKind,
+        importedNames?: string[],
+        exportedNames?: string[]
+    ): ImportInfo {
+        const isRelative = source.startsWith('.') || path.isAbsolute(source);
+        let resolvedPath: string | undefined;
 
-        // For Vue files, extract script content first
-        let scriptContent = content;
-        if (filePath.endsWith('.vue')) {
-            scriptContent = this.extractVueScriptContent(content);
+        // tsconfig/jsconfig `paths` and `baseUrl` take precedence, as they do for tsc
+        if (!isRelative && this.tsconfigResolver) {
+            resolvedPath = this.tsconfigResolver.resolve(source, fileDir, candidate => this.resolveExistingFile(candidate));
+            if (resolvedPath) {
+                console.log(`🔧 Resolved tsconfig path: ${source} → ${path.relative(projectRoot, resolvedPath)}`);
+            }
         }
 
-        // Use regex-based parsing (more reliable for this use case)
-        imports.push(...this.extractImportsWithRegex(scriptContent, fileDir, projectRoot));
-
-        return imports;
-    }
-
-    /**
-     * Extract script content from Vue Single File Component
-     */
-    private extractVueScriptContent(content: string): string {
-        // Match <script> tags with various attributes
-        const scriptPattern = /<script[^>]*>([\s\S]*?)<\/script>/gi;
-        const matches = content.match(scriptPattern);
-        
-        if (!matches) {
-            return '';
-        }
-
-        // Combine all script blocks (there might be multiple)
-        return matches.map(match => {
-            // Remove <script> tags and extract content
-            return match.replace(/<script[^>]*>|<\/script>/gi, '');
-        }).join('\n');
-    }
-
-    private extractImportsWithRegex(content: string, fileDir: string, projectRoot: string): ImportInfo[] {
-        const imports: ImportInfo[] = [];
-
-        // Enhanced regex patterns with more thorough matching
-        const importPatterns = [
-            // import { utils } from './utils';
-            /import\s*\{\s*([^}]*)\s*\}\s*from\s*['"`]([^'"`]+)['"`]/g,
-            // import * as fs from 'fs';
-            /import\s*\*\s*as\s+(\w+)\s+from\s*['"`]([^'"`]+)['"`]/g,
-            // import express from 'express';
-            /import\s+(\w+)\s+from\s*['"`]([^'"`]+)['"`]/g,
-            // import './style.css';
-            /import\s*['"`]([^'"`]+)['"`]/g
-        ];
-
-        // Dynamic import patterns for Vue components and lazy loading
-        const dynamicImportPatterns = [
-            // () => import('~/components/common/empty-data.vue')
-            /\(\s*\)\s*=>\s*import\s*\(\s*['"`]([^'"`]+)['"`]\s*\)/g,
-            // import('~/path')
-            /import\s*\(\s*['"`]([^'"`]+)['"`]\s*\)/g,
-            // require('~/assets/images/common/no-data.png')
-            /require\s*\(\s*['"`]([^'"`]+)['"`]\s*\)/g
-        ];
-
-        const requirePattern = /(?:(?:const|let|var)\s+.*?|[\w$_]+\s*)=\s*require\s*\(\s*['"`]([^'"`]+)['"`]\s*\)/g;
-
-        // Process standard import patterns
-        importPatterns.forEach((pattern) => {
-            let match;
-            while ((match = pattern.exec(content)) !== null) {
-                // For patterns with 2 groups, source is in group 2, otherwise group 1
-                const source = match[2] || match[1];
-                imports.push(this.createImportInfo(source, fileDir, projectRoot, 'import'));
+        // Then aliases declared in Vite/webpack/Rollup/Vue CLI configs
+        if (!isRelative && !resolvedPath && this.bundlerAliasDetector) {
+            resolvedPath = this.bundlerAliasDetector.resolve(source, fileDir, candidate => this.resolveExistingFile(candidate));
+            if (resolvedPath) {
+                console.log(`🔧 Resolved bundler alias: ${source} → ${path.relative(projectRoot, resolvedPath)}`);
             }
-        });
+        }
 
-        // Process dynamic import patterns
-        dynamicImportPatterns.forEach((pattern) => {
-            let match;
-            while ((match = pattern.exec(content)) !== null) {
-                const source = match[1];
-                const importType = pattern.source.includes('require') ? 'require' : 'dynamic-import';
-                imports.push(this.createImportInfo(source, fileDir, projectRoot, importType as 'import' | 'require'));
+        // Then package.json subpath imports (#internal/db) and self-references through "exports"
+        if (!isRelative && !resolvedPath && this.packageJsonResolver) {
+            const resolveFile = (candidate: string) => this.resolveExistingFile(candidate);
+            resolvedPath = source.startsWith('#')
+                ? this.packageJsonResolver.resolveImports(source, fileDir, type, resolveFile)
+                : this.packageJsonResolver.resolveSelfReference(source, fileDir, type, resolveFile);
+            if (resolvedPath) {
+                console.log(`🔧 Resolved package.json mapping: ${source} → ${path.relative(projectRoot, resolvedPath)}`);
             }
-        });
+        }
 
-        // Process require pattern
-        let match;
-        while ((match = requirePattern.exec(content)) !== null) {
-            const source = match[1];
-            imports.push(this.createImportInfo(source, fileDir, projectRoot, 'require'));
+        // Then packages of the same npm/yarn/pnpm workspace
+        if (!isRelative && !resolvedPath && this.workspaceResolver) {
+            resolvedPath = this.workspaceResolver.resolve(source, type, candidate => this.resolveExistingFile(candidate));
+            if (resolvedPath) {
+                console.log(`📦 Resolved workspace package: ${source} → ${path.relative(projectRoot, resolvedPath)}`);
+            }
         }
 
-        return imports;
-    }
+        // Nuxt virtual modules (#imports, #components/...) are generated at build time: external, never unresolved
+        const virtualModule = !isRelative && !resolvedPath ? NuxtAutoImportRegistry.getVirtualModule(source) : undefined;
+        if (virtualModule) {
+            return { source, type, isNodeModule: true, importedNames, exportedNames, packageName: virtualModule };
+        }
 
-    private createImportInfo(
-        source: string, 
-        fileDir: string, 
-        projectRoot: string, 
-        type: 'import' | 'require',
-        importedNames?: string[]
-    ): ImportInfo {
         // Check if this is a project alias (Nuxt/Next patterns)
         const isProjectAlias = this.isProjectAlias(source);
-        const isNodeModule = !source.startsWith('.') && !path.isAbsolute(source) && !isProjectAlias;
-        let resolvedPath: string | undefined;
+        const isNodeModule = !isRelative && !isProjectAlias && !resolvedPath;
 
-        if (!isNodeModule) {
+        if (!isNodeModule && !resolvedPath) {
             if (isProjectAlias) {
                 // Resolve project alias
                 resolvedPath = this.resolveProjectAlias(source, projectRoot);
@@ -523,24 +886,206 @@ export class ImportAnalyzer {
             type,
             isNodeModule,
             resolvedPath,
-            importedNames
+            importedNames,
+            exportedNames,
+            packageName: isNodeModule ? DependencyClassifier.getPackageName(source) : undefined,
+            dependencyType: isNodeModule ? this.dependencyClassifier.classify(source, fileDir) : undefined,
+            unresolved: !isNodeModule && !this.existsOnDisk(resolvedPath)
         };
     }
 
+    /**
+     * Resolve a stylesheet or asset reference. Sass imports and `url()` values without `./`
+     * are relative to the stylesheet first; `~package` refers to node_modules (webpack convention).
+     */
+    private createAssetImportInfo(reference: AssetReference, fileDir: string, projectRoot: string): ImportInfo {
+        // url(fonts/icons.woff?v=2#iefix)
+        const source = reference.source.replace(/[?#].*$/, '');
+
+        if (source.startsWith('~') && !source.startsWith('~/') && !source.startsWith('~~/')) {
+            return {
+                ...this.createImportInfo(source.substring(1), fileDir, projectRoot, reference.type),
+                source: reference.source,
+                line: reference.line
+            };
+        }
+
+        const isBare = !/^[.~@#]/.test(source) && !path.isAbsolute(source);
+        if (isBare || source.startsWith('.')) {
+            const candidate = path.resolve(fileDir, source);
+            const localFile = this.resolveStylesheetFile(candidate);
+            if (localFile || !isBare || reference.syntax === 'url' || reference.syntax === 'src') {
+                return {
+                    source: reference.source,
+                    type: reference.type,
+                    isNodeModule: false,
+                    resolvedPath: localFile || candidate,
+                    line: reference.line,
+                    unresolved: !localFile && !fs.existsSync(candidate)
+                };
+            }
+        }
+
+        // Aliases (@/styles/vars, ~/assets/logo.png) and packages (bootstrap/scss/bootstrap)
+        const importInfo = this.createImportInfo(source, fileDir, projectRoot, reference.type);
+        if (importInfo.resolvedPath && !fs.existsSync(importInfo.resolvedPath)) {
+            const stylesheet = this.resolveStylesheetFile(importInfo.resolvedPath);
+            importInfo.resolvedPath = stylesheet || importInfo.resolvedPath;
+            importInfo.unresolved = importInfo.unresolved && !stylesheet;
+        }
+        return { ...importInfo, source: reference.source, line: reference.line };
+    }
+
+    /**
+     * Resolve a stylesheet import to an existing, non-ignored file, trying Sass partials and index files
+     */
+    private resolveStylesheetFile(basePath: string): string | undefined {
+        return AssetReferenceParser.getStylesheetCandidates(basePath).find(candidate =>
+            fs.existsSync(candidate) && fs.statSync(candidate).isFile() &&
+            !(this.gitignoreParser && this.gitignoreParser.shouldIgnore(candidate))
+        );
+    }
+
+    /**
+     * Annotate imports that go through barrel files (modules that re-export other modules)
+     * with the files that actually define the imported symbols.
+     *
+     * @param sources - Files whose imports are annotated; every file of the map by default
+     */
+    private async resolveBarrelImports(files: Map<string, FileNode>, projectRoot: string, sources: Iterable<FileNode> = files.values()): Promise<void> {
+        this.barrelModuleCache.clear();
+
+        for (const fileNode of sources) {
+            for (const importInfo of fileNode.imports) {
+                if (importInfo.isNodeModule || importInfo.unresolved || !importInfo.resolvedPath || !importInfo.importedNames || importInfo.exportedNames) {
+                    continue;
+                }
+
+                const barrelNode = await this.getBarrelModule(importInfo.resolvedPath, files, projectRoot);
+                if (!barrelNode || !barrelNode.imports.some(imp => imp.exportedNames)) {
+                    continue;
+                }
+
+                const targets: BarrelTarget[] = [];
+                for (const name of importInfo.importedNames) {
+                    // Namespace imports keep the whole barrel, so there is nothing to see through
+                    if (name === '*') {
+                        continue;
+                    }
+                    const defined: BarrelTarget | undefined = await this.traceExport(importInfo.resolvedPath, name, files, projectRoot, new Set());
+                    if (defined && defined.resolvedPath !== importInfo.resolvedPath) {
+                        targets.push(defined);
+                    }
+                }
+
+                if (targets.length > 0) {
+                    importInfo.barrelTargets = targets;
+                    console.log(`🛢️  Barrel ${path.basename(importInfo.resolvedPath)}: ${targets.map(t => `${t.name} → ${path.basename(t.resolvedPath)}`).join(', ')}`);
+                }
+            }
+        }
+    }
+
+    /**
+     * Follow re-exports from a module until reaching the file that declares the exported name
+     */
+    private async traceExport(
+        modulePath: string,
+        name: string,
+        files: Map<string, FileNode>,
+        projectRoot: string,
+        visited: Set<string>
+    ): Promise<BarrelTarget | undefined> {
+        if (visited.has(modulePath)) {
+            return undefined;
+        }
+        visited.add(modulePath);
+
+        const moduleNode = await this.getBarrelModule(modulePath, files, projectRoot);
+        if (!moduleNode) {
+            return undefined;
+        }
+
+        if (moduleNode.exports && moduleNode.exports.includes(name)) {
+            return { name, resolvedPath: modulePath };
+        }
+
+        // Type-only re-exports forward names too, so `import type` through a barrel still reaches the declaring file
+        const reExports = moduleNode.imports.filter(imp => imp.exportedNames && !imp.isNodeModule && imp.resolvedPath);
+
+        // Named re-exports: export { a as b } from './x'
+        for (const reExport of reExports) {
+            const index = (reExport.exportedNames || []).indexOf(name);
+            if (index === -1) {
+                continue;
+            }
+            const importedName = reExport.importedNames![index];
+            if (importedName === '*') {
+                // export * as ns from './x' - the namespace object is the whole module
+                return { name: '*', resolvedPath: reExport.resolvedPath! };
+            }
+            return await this.traceExport(reExport.resolvedPath!, importedName, files, projectRoot, visited);
+        }
+
+        // Star re-exports never forward the default export
+        if (name === 'default') {
+            return undefined;
+        }
+
+        // Star re-exports: export * from './x'
+        for (const reExport of reExports) {
+            if (!reExport.exportedNames || reExport.exportedNames[0] !== '*') {
+                continue;
+            }
+            const found = await this.traceExport(reExport.resolvedPath!, name, files, projectRoot, new Set(visited));
+            if (found) {
+                return found;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Get the analyzed node for a module, parsing it on demand when it is not part of the current map
+     */
+    private async getBarrelModule(modulePath: string, files: Map<string, FileNode>, projectRoot: string): Promise<FileNode | null> {
+        const known = files.get(modulePath);
+        if (known) {
+            return known;
+        }
+        if (!this.barrelModuleCache.has(modulePath)) {
+            const fileNode = this.isSupportedFile(modulePath) ? await this.analyzeFileContent(modulePath, projectRoot) : null;
+            this.barrelModuleCache.set(modulePath, fileNode);
+        }
+        return this.barrelModuleCache.get(modulePath) || null;
+    }
+
     private isProjectAlias(source: string): boolean {
-        // Check for common project alias patterns
-        return source.startsWith('@/') || 
+        // Check for configured and common project alias patterns
+        return this.getConfiguredAlias(source) !== undefined ||
+               source.startsWith('@/') || 
                source.startsWith('~/') || 
-               source.startsWith('~~/') ||
-               source.startsWith('#app/') ||
-               source.startsWith('#imports') ||
-               source.startsWith('#components/');
+               source.startsWith('~~/');
+    }
+
+    /**
+     * The longest alias prefix from the settings that the specifier starts with
+     */
+    private getConfiguredAlias(source: string): string | undefined {
+        return Object.keys(this.settings.aliases || {})
+            .filter(prefix => source === prefix.replace(/\/$/, '') || source.startsWith(prefix))
+            .sort((a, b) => b.length - a.length)[0];
     }
 
     private resolveProjectAlias(source: string, projectRoot: string): string | undefined {
         let aliasPath: string;
+        const configuredAlias = this.getConfiguredAlias(source);
 
-        if (source.startsWith('@/')) {
+        if (configuredAlias !== undefined) {
+            // Aliases from the settings take precedence over the built-in Nuxt/Next conventions
+            aliasPath = path.join(projectRoot, this.settings.aliases![configuredAlias], source.substring(configuredAlias.length));
+        } else if (source.startsWith('@/')) {
             // @/ typically maps to srcDir or project root
             const withoutAlias = source.substring(2);
             // Try srcDir first, then project root
@@ -555,10 +1100,6 @@ export class ImportAnalyzer {
             const withoutAlias = source.startsWith('~~/') ? source.substring(3) : source.substring(2);
             // Map to srcDir (configured in nuxt.config)
             aliasPath = path.join(projectRoot, this.nuxtSrcDir, withoutAlias);
-        } else if (source.startsWith('#app/') || source.startsWith('#imports') || source.startsWith('#components/')) {
-            // Nuxt 3 specific aliases - ALWAYS map to srcDir (no fallback to project root)
-            const withoutAlias = source.substring(source.indexOf('/') + 1);
-            aliasPath = path.join(projectRoot, this.nuxtSrcDir, withoutAlias || '');
         } else {
             return undefined;
         }
@@ -566,8 +1107,40 @@ export class ImportAnalyzer {
         return this.resolveFilePath(aliasPath);
     }
 
+    /**
+     * Whether an import target exists, ignoring .gitignore: imports of ignored (e.g. generated) files are not broken
+     */
+    private existsOnDisk(resolvedPath: string | undefined): boolean {
+        if (!resolvedPath) {
+            return false;
+        }
+        const candidates = [
+            resolvedPath,
+            ...RESOLVE_EXTENSIONS.flatMap(ext => [resolvedPath + ext, path.join(resolvedPath, `index${ext}`)]),
+            ...(TS_SOURCE_EXTENSIONS[path.extname(resolvedPath)] || []).map(ext => resolvedPath.slice(0, -path.extname(resolvedPath).length) + ext)
+        ];
+        return candidates.some(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+    }
+
     private resolveFilePath(filePath: string): string {
-        const extensions = ['', '.ts', '.js', '.tsx', '.jsx', '.vue', '.svelte'];
+        return this.resolveExistingFile(filePath) || filePath;
+    }
+
+    /**
+     * Resolve a path to an existing, non-ignored file by trying known extensions and index files
+     */
+    private resolveExistingFile(filePath: string): string | undefined {
+        // Like tsc, prefer the TypeScript source over an emitted file next to it
+        const emittedExt = path.extname(filePath);
+        for (const sourceExt of TS_SOURCE_EXTENSIONS[emittedExt] || []) {
+            const sourcePath = filePath.slice(0, -emittedExt.length) + sourceExt;
+            if (fs.existsSync(sourcePath) && fs.statSync(sourcePath).isFile() &&
+                !(this.gitignoreParser && this.gitignoreParser.shouldIgnore(sourcePath))) {
+                return sourcePath;
+            }
+        }
+
+        const extensions = ['', ...RESOLVE_EXTENSIONS];
         
         for (const ext of extensions) {
             const fullPath = filePath + ext;
@@ -594,25 +1167,32 @@ export class ImportAnalyzer {
             }
         }
 
-        return filePath;
+        return undefined;
     }
 
-    private getAllFiles(dir: string): string[] {
+    /**
+     * List the files of a directory the analysis picks up, skipping ignored paths
+     *
+     * @param dir - Directory to scan recursively
+     * @param options - Cancellation hook; the scan stops between directories
+     */
+    private async collectFiles(dir: string, options: AnalysisOptions = {}): Promise<string[]> {
+        this.throwIfCancelled(options);
         const files: string[] = [];
-        const entries = fs.readdirSync(dir, { withFileTypes: true });
+        const entries = await fs.promises.readdir(dir, { withFileTypes: true });
 
         for (const entry of entries) {
             const fullPath = path.join(dir, entry.name);
             
-            // Check gitignore first
-            if (this.gitignoreParser && this.gitignoreParser.shouldIgnore(fullPath)) {
+            // Check ignore rules first
+            if (this.gitignoreParser && this.gitignoreParser.shouldIgnore(fullPath, entry.isDirectory())) {
                 console.log(`🚫 Ignoring (gitignore): ${path.relative(this.gitignoreParser.projectRoot, fullPath)}`);
                 continue;
             }
             
             if (entry.isDirectory() && !this.shouldIgnoreDirectory(entry.name)) {
-                files.push(...this.getAllFiles(fullPath));
-            } else if (entry.isFile() && this.isSupportedFile(fullPath) && !this.isCompiledFile(fullPath)) {
+                files.push(...await this.collectFiles(fullPath, options));
+            } else if (entry.isFile() && (this.isSupportedFile(fullPath) || this.isScannedAsset(fullPath)) && !this.isCompiledFile(fullPath)) {
                 files.push(fullPath);
             }
         }
@@ -620,36 +1200,32 @@ export class ImportAnalyzer {
         return files;
     }
 
+    /**
+     * Directories never scanned even without ignore rules: dependencies, VCS data and build output.
+     * Other dot-directories (.storybook, .vitepress) are scanned unless an ignore file excludes them.
+     */
     private shouldIgnoreDirectory(dirName: string): boolean {
-        const ignoredDirs = ['node_modules', '.git', 'dist', 'build', 'out', '.vscode', '.next'];
-        return ignoredDirs.includes(dirName) || dirName.startsWith('.');
+        const ignoredDirs = this.settings.ignoredDirectories || DEFAULT_ANALYZER_SETTINGS.ignoredDirectories;
+        return ignoredDirs.includes(dirName);
     }
 
     private isCompiledFile(filePath: string): boolean {
         // For TypeScript projects, skip .js files if corresponding .ts file exists
         if (this.projectType === ProjectType.TYPESCRIPT || this.projectType === ProjectType.MIXED) {
-            if (filePath.endsWith('.js')) {
-                const tsPath = filePath.replace('.js', '.ts');
-                const tsxPath = filePath.replace('.js', '.tsx');
-                if (fs.existsSync(tsPath) || fs.existsSync(tsxPath)) {
-                    console.log(`🚫 Skipping compiled file: ${path.relative(this.projectRoot, filePath)}`);
-                    return true; // This is a compiled file, skip it
-                }
-            }
-            
-            if (filePath.endsWith('.jsx')) {
-                const tsxPath = filePath.replace('.jsx', '.tsx');
-                if (fs.existsSync(tsxPath)) {
-                    console.log(`🚫 Skipping compiled file: ${path.relative(this.projectRoot, filePath)}`);
-                    return true; // This is a compiled file, skip it
-                }
+            // .js/.jsx/.mjs/.cjs next to a .ts/.tsx/.mts/.cts source
+            const ext = path.extname(filePath);
+            const sourceExts = TS_SOURCE_EXTENSIONS[ext] || [];
+            if (sourceExts.some(sourceExt => fs.existsSync(filePath.slice(0, -ext.length) + sourceExt))) {
+                console.log(`🚫 Skipping compiled file: ${path.relative(this.projectRoot, filePath)}`);
+                return true; // This is a compiled file, skip it
             }
         }
         
         // Skip files in common build directories
         const relativePath = path.relative(this.projectRoot, filePath);
-        const buildDirs = ['dist/', 'build/', 'out/', 'lib/', '.next/', 'coverage/'];
-        if (buildDirs.some(dir => relativePath.startsWith(dir))) {
+        const buildDirs = (this.settings.buildDirectories || DEFAULT_ANALYZER_SETTINGS.buildDirectories)
+            .map(dir => dir.replace(/\\/g, '/').replace(/\/*$/, '/'));
+        if (buildDirs.some(dir => relativePath.split(path.sep).join('/').startsWith(dir))) {
             console.log(`🚫 Skipping file in build directory: ${relativePath}`);
             return true;
         }
@@ -657,6 +1233,15 @@ export class ImportAnalyzer {
         return false;
     }
 
+    /**
+     * Stylesheets, images, fonts and media are collected by the file scan so unreferenced assets show up;
+     * JSON files are only added when something imports them, to leave out config files
+     */
+    private isScannedAsset(filePath: string): boolean {
+        const assetType = getAssetType(filePath);
+        return !!assetType && assetType !== 'json';
+    }
+
     private isSupportedFile(filePath: string): boolean {
         return this.supportedExtensions.some(ext => filePath.endsWith(ext));
     }
@@ -743,9 +1328,9 @@ export class ImportAnalyzer {
                             countFiles(fullPath, depth + 1);
                         }
                     } else if (entry.isFile()) {
-                        if (entry.name.endsWith('.ts') || entry.name.endsWith('.tsx')) {
+                        if (/\.(ts|tsx|mts|cts)$/.test(entry.name)) {
                             stats.tsFiles++;
-                        } else if (entry.name.endsWith('.js') || entry.name.endsWith('.jsx')) {
+                        } else if (/\.(js|jsx|mjs|cjs)$/.test(entry.name)) {
                             stats.jsFiles++;
                         } else if (entry.name.endsWith('.vue')) {
                             stats.vueFiles++;
@@ -785,7 +1370,7 @@ export class ImportAnalyzer {
                     
                     if (entry.isDirectory() && !this.shouldIgnoreDirectory(entry.name)) {
                         checkFiles(fullPath, depth + 1);
-                    } else if (entry.isFile() && (entry.name.endsWith('.js') || entry.name.endsWith('.jsx'))) {
+                    } else if (entry.isFile() && /\.(js|jsx|mjs|cjs)$/.test(entry.name)) {
                         try {
                             const content = fs.readFileSync(fullPath, 'utf-8');
                             // Count require statements
@@ -823,17 +1408,21 @@ export class ImportAnalyzer {
      * Get supported extensions based on detected project type
      */
     private getSupportedExtensions(): string[] {
-        const baseExtensions = ['.vue', '.svelte']; // Always support these
+        if (this.settings.extensions && this.settings.extensions.length > 0) {
+            return this.settings.extensions.map(ext => ext.startsWith('.') ? ext : `.${ext}`);
+        }
+
+        const baseExtensions = ['.vue', '.svelte', '.astro', '.mdx']; // Always support these
         
         switch (this.projectType) {
             case ProjectType.TYPESCRIPT:
-                return ['.ts', '.tsx', ...baseExtensions];
+                return ['.ts', '.tsx', '.mts', '.cts', ...baseExtensions];
             case ProjectType.JAVASCRIPT_COMMONJS:
             case ProjectType.JAVASCRIPT_ES6:
-                return ['.js', '.jsx', ...baseExtensions];
+                return ['.js', '.jsx', '.mjs', '.cjs', ...baseExtensions];
             case ProjectType.MIXED:
             default:
-                return ['.js', '.jsx', '.ts', '.tsx', ...baseExtensions];
+                return ['.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.mts', '.cts', ...baseExtensions];
         }
     }
 } 
\ No newline at end of file
@@ -0,0 +1,387 @@
+import * as path from 'path';
+import { ImportMap, ImportInfo, FileNode, ImportKind, AssetType, DependencyType } from './types';
+import { GraphProblems, collectGraphProblems } from './graphProblems';
+
+/**
+ * Version of the exported JSON layout; raised when fields change meaning or are removed
+ */
+export const EXPORT_FORMAT_VERSION = 1;
+
+/**
+ * File formats an import map can be exported to
+ */
+export type ExportFormat = 'json' | 'dot' | 'mermaid' | 'graphml' | 'csv';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string }> = {
+    json: { label: 'JSON', extension: 'json' },
+    dot: { label: 'Graphviz DOT', extension: 'dot' },
+    mermaid: { label: 'Mermaid flowchart', extension: 'mmd' },
+    graphml: { label: 'GraphML', extension: 'graphml' },
+    csv: { label: 'CSV edge list', extension: 'csv' }
+};
+
+/**
+ * The part of an import map to export, e.g. what the panel shows with its filters
+ */
+export interface ExportFilter {
+    includeFile(filePath: string): boolean;
+    /** Called for the imports of included files only */
+    includeImport(filePath: string, importInfo: ImportInfo): boolean;
+}
+
+/**
+ * An analyzed file. Paths are relative to the root, with `/` separators.
+ */
+export interface ExportedFile {
+    path: string;
+    /** Workspace package the file belongs to */
+    package?: string;
+    /** Workspace folder, for workspace maps */
+    workspaceRoot?: string;
+    assetType?: AssetType;
+    /** Names the file exports itself ('default' for a default export) */
+    exports: string[];
+}
+
+/**
+ * One import statement (or require call, or implicit Nuxt import). File imports have `to`,
+ * package imports have `package`; unresolved imports have neither.
+ */
+export interface ExportedImport {
+    from: string;
+    to?: string;
+    package?: string;
+    /** The specifier as written */
+    source: string;
+    kind: ImportKind;
+    names?: string[];
+    /** Zero-based line of the specifier */
+    line?: number;
+    dependencyType?: DependencyType;
+    unresolved?: boolean;
+}
+
+/**
+ * An import map in the shape written by the CLI and by JSON exports (documented in the README)
+ */
+export interface ExportedGraph {
+    version: number;
+    /** Absolute path of the analyzed directory */
+    root: string;
+    /** Focus file of a current-file map */
+    focus?: string;
+    /** Levels around the focus file; null is unlimited */
+    depth?: { importers: number | null; dependencies: number | null };
+    files: ExportedFile[];
+    imports: ExportedImport[];
+    problems: {
+        unresolved: { file: string; source: string; line?: number }[];
+        cycles: string[][];
+        undeclared: { file: string; package: string; line?: number }[];
+    };
+}
+
+/**
+ * Convert an import map to plain data with paths relative to the root, ready for JSON.stringify
+ *
+ * @param importMap - The analyzed import map
+ * @param root - Directory the paths are made relative to
+ * @param problems - Problems of the map; collected when omitted
+ */
+export function toExportedGraph(importMap: ImportMap, root: string, problems: GraphProblems = collectGraphProblems(importMap)): ExportedGraph {
+    const relative = (filePath: string) => path.relative(root, filePath).split(path.sep).join('/');
+    const levels = (depth: number) => depth === Infinity ? null : depth;
+
+    const files: ExportedFile[] = [];
+    const imports: ExportedImport[] = [];
+    for (const fileNode of importMap.files.values()) {
+        files.push({
+            path: relative(fileNode.path),
+            package: fileNode.packageName,
+            workspaceRoot: fileNode.workspaceRoot,
+            assetType: fileNode.assetType,
+            exports: fileNode.exports || []
+        });
+        for (const importInfo of fileNode.imports) {
+            imports.push({
+                from: relative(fileNode.path),
+                to: !importInfo.isNodeModule && !importInfo.unresolved && importInfo.resolvedPath ? relative(importInfo.resolvedPath) : undefined,
+                package: importInfo.isNodeModule ? importInfo.packageName || importInfo.source : undefined,
+                source: importInfo.source,
+                kind: importInfo.type,
+                names: importInfo.importedNames,
+                line: importInfo.line,
+                dependencyType: importInfo.dependencyType,
+                unresolved: importInfo.unresolved || undefined
+            });
+        }
+    }
+
+    return {
+        version: EXPORT_FORMAT_VERSION,
+        root,
+        focus: importMap.entryFile && relative(importMap.entryFile),
+        depth: importMap.depth && { importers: levels(importMap.depth.importers), dependencies: levels(importMap.depth.dependencies) },
+        files,
+        imports,
+        problems: {
+            unresolved: problems.unresolved.map(({ filePath, source, line }) => ({ file: relative(filePath), source, line })),
+            cycles: problems.cycles.map(cycle => cycle.map(relative)),
+            undeclared: problems.undeclared.map(({ filePath, packageName, line }) => ({ file: relative(filePath), package: packageName, line }))
+        }
+    };
+}
+
+/**
+ * Copy the files and imports of an import map that a filter includes
+ */
+export function filterImportMap(importMap: ImportMap, filter: ExportFilter): ImportMap {
+    const files = new Map<string, FileNode>();
+    for (const [filePath, fileNode] of importMap.files) {
+        if (filter.includeFile(filePath)) {
+            files.set(filePath, {
+                ...fileNode,
+                imports: fileNode.imports.filter(importInfo => filter.includeImport(filePath, importInfo)),
+                importedBy: fileNode.importedBy.filter(importer => filter.includeFile(importer))
+            });
+        }
+    }
+    return { ...importMap, files };
+}
+
+/**
+ * The part of a current-file map within its depth, as the panel draws it: imports between the mapped
+ * files, and the packages and unresolved specifiers of the focus file. The other imports of the
+ * outermost files lead further than the requested depth.
+ */
+export function getFocusFilter(importMap: ImportMap): ExportFilter {
+    return {
+        includeFile: () => true,
+        includeImport: (filePath, importInfo) => importInfo.isNodeModule || importInfo.unresolved || !importInfo.resolvedPath
+            ? filePath === importMap.entryFile
+            : importMap.files.has(importInfo.resolvedPath)
+    };
+}
+
+/**
+ * Write an exported graph in one of the export formats
+ */
+export function formatExportedGraph(graph: ExportedGraph, format: ExportFormat): string {
+    switch (format) {
+        case 'json':
+            return JSON.stringify(graph, null, 2) + '\n';
+        case 'dot':
+            return toDot(graph);
+        case 'mermaid':
+            return toMermaid(graph);
+        case 'graphml':
+            return toGraphMl(graph);
+        case 'csv':
+            return toCsv(graph);
+    }
+}
+
+/**
+ * A node of the graph formats: an analyzed file or an external package
+ */
+interface GraphNode {
+    key: string;
+    label: string;
+    file?: ExportedFile;
+    packageName?: string;
+    dependencyType?: DependencyType;
+}
+
+/**
+ * An edge of the graph formats, from the importing file to its dependency. Imports of the same
+ * target by the same file are merged into one edge, as in the panel.
+ */
+interface GraphEdge {
+    from: string;
+    to: string;
+    kinds: ImportKind[];
+    names: string[];
+}
+
+/**
+ * Nodes and merged edges of an exported graph; unresolved imports have no target and are left out
+ */
+function toNodesAndEdges(graph: ExportedGraph): { nodes: GraphNode[]; edges: GraphEdge[] } {
+    const nodes = new Map<string, GraphNode>();
+    for (const file of graph.files) {
+        nodes.set(`file:${file.path}`, { key: `file:${file.path}`, label: file.path, file });
+    }
+
+    const edges = new Map<string, GraphEdge>();
+    for (const importInfo of graph.imports) {
+        let to: string;
+        if (importInfo.to !== undefined) {
+            to = `file:${importInfo.to}`;
+        } else if (importInfo.package !== undefined) {
+            to = `package:${importInfo.package}`;
+        } else {
+            continue;
+        }
+        if (!nodes.has(to)) {
+            nodes.set(to, importInfo.package !== undefined
+                ? { key: to, label: importInfo.package, packageName: importInfo.package, dependencyType: importInfo.dependencyType }
+                : { key: to, label: importInfo.to! });
+        }
+
+        const from = `file:${importInfo.from}`;
+        const edgeKey = JSON.stringify([from, to]);
+        const edge = edges.get(edgeKey) || { from, to, kinds: [], names: [] };
+        edges.set(edgeKey, edge);
+        if (!edge.kinds.includes(importInfo.kind)) {
+            edge.kinds.push(importInfo.kind);
+        }
+        for (const name of importInfo.names || []) {
+            if (!edge.names.includes(name)) {
+                edge.names.push(name);
+            }
+        }
+    }
+
+    return { nodes: Array.from(nodes.values()), edges: Array.from(edges.values()) };
+}
+
+/**
+ * Whether an edge only stands for imports that do not load the target eagerly at runtime
+ */
+function isLazyEdge(edge: GraphEdge): boolean {
+    return edge.kinds.every(kind => kind === 'type' || kind === 'dynamic');
+}
+
+/**
+ * Label of an edge in the diagram formats: its kinds, unless it is a plain static import
+ */
+function getEdgeLabel(edge: GraphEdge): string | undefined {
+    return edge.kinds.length === 1 && edge.kinds[0] === 'import' ? undefined : edge.kinds.join(', ');
+}
+
+function toDot(graph: ExportedGraph): string {
+    const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+    const { nodes, edges } = toNodesAndEdges(graph);
+    const lines = [
+        'digraph imports {',
+        '    rankdir=LR;',
+        '    node [shape=box, style="rounded,filled", fillcolor="#f3f3f3", fontname="Helvetica"];'
+    ];
+    for (const node of nodes) {
+        const attributes = [`label=${quote(node.label)}`];
+        if (node.packageName !== undefined) {
+            attributes.push('shape=ellipse', 'fillcolor="#ffe0b3"');
+        } else if (node.file && node.file.path === graph.focus) {
+            attributes.push('fillcolor="#007acc"', 'fontcolor="#ffffff"');
+        } else if (node.file?.assetType) {
+            attributes.push('fillcolor="#f8c8dc"');
+        }
+        lines.push(`    ${quote(node.key)} [${attributes.join(', ')}];`);
+    }
+    for (const edge of edges) {
+        const attributes: string[] = [];
+        const label = getEdgeLabel(edge);
+        if (label) {
+            attributes.push(`label=${quote(label)}`);
+        }
+        if (isLazyEdge(edge)) {
+            attributes.push('style=dashed');
+        }
+        lines.push(`    ${quote(edge.from)} -> ${quote(edge.to)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+    }
+    lines.push('}');
+    return lines.join('\n') + '\n';
+}
+
+function toMermaid(graph: ExportedGraph): string {
+    // Mermaid has no escape for quotes inside labels, only HTML entities
+    const text = (value: string) => value.replace(/"/g, '#quot;');
+    const { nodes, edges } = toNodesAndEdges(graph);
+    const ids = new Map(nodes.map((node, index) => [node.key, `n${index}`]));
+    const lines = ['flowchart LR'];
+    for (const node of nodes) {
+        const label = `"${text(node.label)}"`;
+        lines.push(`    ${ids.get(node.key)}${node.packageName !== undefined ? `([${label}])` : `[${label}]`}`);
+    }
+    for (const edge of edges) {
+        const label = getEdgeLabel(edge);
+        const arrow = isLazyEdge(edge) ? '-.->' : '-->';
+        lines.push(`    ${ids.get(edge.from)} ${arrow}${label ? `|"${text(label)}"|` : ''} ${ids.get(edge.to)}`);
+    }
+
+    const focus = graph.focus !== undefined ? ids.get(`file:${graph.focus}`) : undefined;
+    const packages = nodes.filter(node => node.packageName !== undefined).map(node => ids.get(node.key));
+    if (focus) {
+        lines.push('    classDef focus fill:#007acc,color:#ffffff', `    class ${focus} focus`);
+    }
+    if (packages.length > 0) {
+        lines.push('    classDef package fill:#ffe0b3', `    class ${packages.join(',')} package`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+function toGraphMl(graph: ExportedGraph): string {
+    const escape = (value: string) => value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+    const data = (key: string, value: string | undefined) => value === undefined ? [] : [`<data key="${key}">${escape(value)}</data>`];
+    const { nodes, edges } = toNodesAndEdges(graph);
+
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+        '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+        '  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+        '  <key id="package" for="node" attr.name="package" attr.type="string"/>',
+        '  <key id="assetType" for="node" attr.name="assetType" attr.type="string"/>',
+        '  <key id="dependencyType" for="node" attr.name="dependencyType" attr.type="string"/>',
+        '  <key id="focus" for="node" attr.name="focus" attr.type="boolean"><default>false</default></key>',
+        '  <key id="kinds" for="edge" attr.name="kinds" attr.type="string"/>',
+        '  <key id="names" for="edge" attr.name="names" attr.type="string"/>',
+        '  <graph id="imports" edgedefault="directed">'
+    ];
+    for (const node of nodes) {
+        lines.push(`    <node id="${escape(node.key)}">${[
+            ...data('label', node.label),
+            ...data('type', node.packageName !== undefined ? 'package' : 'file'),
+            ...data('package', node.file?.package),
+            ...data('assetType', node.file?.assetType),
+            ...data('dependencyType', node.dependencyType),
+            ...data('focus', node.file && node.file.path === graph.focus ? 'true' : undefined)
+        ].join('')}</node>`);
+    }
+    edges.forEach((edge, index) => {
+        lines.push(`    <edge id="e${index}" source="${escape(edge.from)}" target="${escape(edge.to)}">${[
+            ...data('kinds', edge.kinds.join(' ')),
+            ...data('names', edge.names.length > 0 ? edge.names.join(' ') : undefined)
+        ].join('')}</edge>`);
+    });
+    lines.push('  </graph>', '</graphml>');
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * One row per import with a target (a file or a package), in import order
+ */
+function toCsv(graph: ExportedGraph): string {
+    const cell = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    const rows = [['from', 'to', 'target_type', 'kind', 'source', 'line', 'names']];
+    for (const importInfo of graph.imports) {
+        if (importInfo.to === undefined && importInfo.package === undefined) {
+            continue;
+        }
+        rows.push([
+            importInfo.from,
+            importInfo.to ?? importInfo.package!,
+            importInfo.to !== undefined ? 'file' : 'package',
+            importInfo.kind,
+            importInfo.source,
+            // One-based, like editors show lines
+            importInfo.line === undefined ? '' : String(importInfo.line + 1),
+            (importInfo.names || []).join(' ')
+        ]);
+    }
+    return rows.map(row => row.map(cell).join(',')).join('\r\n') + '\r\n';
+}
@@ -1,6 +1,15 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { ImportMap, VisualizationNode, VisualizationEdge } from './types';
+import { ImportMap, ImportInfo, ImportKind, VisualizationNode, VisualizationEdge, UnresolvedImport, AnalysisDepth } from './types';
+import { getAssetType } from './assetReferenceParser';
+import { collectUnresolvedImports } from './graphProblems';
+import { ExportFilter } from './importMapExport';
+import { readPanelSettings, toDepth, formatDepth, DEPTH_CHOICES } from './settings';
+
+/**
+ * Image formats the panel can render the map to
+ */
+export type ImageFormat = 'svg' | 'png';
 
 /**
  * ImportMapPanel manages the webview panel that displays the interactive import relationship map.
@@ -9,17 +18,62 @@ import { ImportMap, VisualizationNode, VisualizationEdge } from './types';
  * Features:
  * - Interactive node dragging with position persistence
  * - Zoom and pan functionality
- * - Toggle visibility of node modules
+ * - Toggle visibility of node modules, grouped by package and colored by dependency type
+ * - Expanding a package into the subpaths imported from it
+ * - Stylesheet and asset nodes (CSS/SCSS/Less, images, fonts, JSON) with their own color and toggle
+ * - Symbol-level edges showing which bindings each import pulls in
+ * - Distinct edge styles per import kind (type-only, dynamic, side-effect, re-export, require, Nuxt auto-import), each toggleable
+ * - Collapsing barrel files so imports point at the files defining each symbol
+ * - Package-level view of dependencies between workspace packages
+ * - Multi-root workspaces, labelling each node with its workspace folder
  * - Support for project aliases (@/, ~/, etc.)
+ * - List of unresolved imports, opening the importing file at the import line
+ * - Importer and dependency depth controls that re-analyze the current file
+ * - Live updates when files change, patching the graph without losing positions, zoom or selection
+ * - Exporting the shown files and imports, with the current filters, to JSON, DOT, Mermaid, GraphML or CSV
+ * - Saving the whole rendered map, not only the part in view, as an SVG or PNG image
  * - Dual mode: current file analysis vs full project analysis
  */
 export class ImportMapPanel {
     public static currentPanel: ImportMapPanel | undefined;
     public static readonly viewType = 'importMapExplorer';
 
+    private static readonly _onDidChangeDepth = new vscode.EventEmitter<AnalysisDepth>();
+    /**
+     * Fired when another importer or dependency depth is picked in the panel;
+     * the extension re-analyzes the current file with it
+     */
+    public static readonly onDidChangeDepth = ImportMapPanel._onDidChangeDepth.event;
+
+    private static readonly _onDidRequestExport = new vscode.EventEmitter<ExportFilter>();
+    /**
+     * Fired when the panel's Export button is clicked or an export is requested with requestExport;
+     * the filter selects the files and imports the panel shows
+     */
+    public static readonly onDidRequestExport = ImportMapPanel._onDidRequestExport.event;
+
+    /**
+     * Line style of each edge kind, in order of significance: when one edge stands for
+     * several imports of the same file, it is drawn with the first kind that is shown
+     */
+    private static readonly EDGE_STYLES: Record<ImportKind, { label: string; color: string; dash: number[] }> = {
+        're-export': { label: 'Re-export', color: '#2aa198', dash: [] },
+        'import': { label: 'Static Import', color: '#666666', dash: [] },
+        'require': { label: 'require()', color: '#8a6d3b', dash: [8, 3] },
+        'side-effect': { label: 'Side-effect Import', color: '#b04a8c', dash: [10, 3, 2, 3] },
+        'dynamic': { label: 'Dynamic import()', color: '#d9822b', dash: [6, 4] },
+        'implicit': { label: 'Auto-import (Nuxt)', color: '#00a36c', dash: [1, 3] },
+        'type': { label: 'Type-only Import', color: '#7f9cbf', dash: [2, 3] }
+    };
+
     private readonly _panel: vscode.WebviewPanel;
     private readonly _extensionUri: vscode.Uri;
     private _disposables: vscode.Disposable[] = [];
+    /** Graph last rendered in the webview, which live updates are diffed against */
+    private _graph: { nodes: VisualizationNode[]; edges: VisualizationEdge[]; currentFile?: string; isProjectMode: boolean } | undefined;
+    /** Images requested from the webview, by request id */
+    private _pendingImages = new Map<number, { format: ImageFormat; resolve: (image: Uint8Array) => void; reject: (error: Error) => void }>();
+    private _nextImageId = 0;
 
     /**
      * Creates or shows the import map panel. Optionally updates the content based on shouldUpdate parameter.
@@ -111,7 +165,22 @@ export class ImportMapPanel {
             message => {
                 switch (message.command) {
                     case 'openFile':
-                        this.openFile(message.filePath);
+                        this.openFile(message.filePath, message.line);
+                        return;
+                    case 'changeDepth':
+                        ImportMapPanel._onDidChangeDepth.fire({
+                            importers: toDepth(message.importers),
+                            dependencies: toDepth(message.dependencies)
+                        });
+                        return;
+                    case 'exportGraph':
+                        ImportMapPanel._onDidRequestExport.fire(ImportMapPanel.toExportFilter(message.files, message.edges));
+                        return;
+                    case 'saveImage':
+                        vscode.commands.executeCommand('importMapExplorer.saveImage');
+                        return;
+                    case 'imageRendered':
+                        this.resolveImage(message.id, message.data, message.error);
                         return;
                 }
             },
@@ -145,15 +214,150 @@ export class ImportMapPanel {
     }
 
     /**
-     * Opens a file in VSCode editor when user double-clicks a node.
+     * Sends what changed between the shown graph and an updated import map to the webview,
+     * which patches its graph in place and keeps node positions, zoom and the selected node.
+     * The webview is rebuilt instead when it shows another file or mode.
+     * 
+     * @param importMap - The updated import data
+     * @param currentFile - Path of the currently focused file
+     * @param isProjectMode - Whether the map is a full project or current file analysis
+     */
+    public static applyUpdate(importMap: ImportMap, currentFile?: string, isProjectMode = false) {
+        const panel = ImportMapPanel.currentPanel;
+        if (!panel) {
+            return;
+        }
+        const previous = panel._graph;
+        if (!previous || previous.currentFile !== currentFile || previous.isProjectMode !== isProjectMode) {
+            panel.updateContent(importMap, currentFile, isProjectMode);
+            return;
+        }
+
+        const { nodes, edges } = panel.convertToVisualizationData(importMap, currentFile, isProjectMode);
+        const packageData = panel.convertToPackageData(importMap, currentFile);
+        panel._graph = { nodes, edges, currentFile, isProjectMode };
+        panel._panel.webview.postMessage({
+            command: 'updateGraph',
+            nodes: ImportMapPanel.diffById(previous.nodes, nodes, node => node.id),
+            edges: ImportMapPanel.diffById(previous.edges, edges, ImportMapPanel.getEdgeKey),
+            packageNodes: packageData.nodes,
+            packageEdges: packageData.edges,
+            unresolvedImports: collectUnresolvedImports(importMap)
+        });
+    }
+
+    /**
+     * Asks the webview for the files and imports it shows; they arrive through onDidRequestExport
+     */
+    public static requestExport() {
+        ImportMapPanel.currentPanel?._panel.webview.postMessage({ command: 'requestExport' });
+    }
+
+    /**
+     * Renders the whole map as the webview draws it
+     * 
+     * @param format - Image format
+     * @returns The SVG document or PNG file contents
+     */
+    public static renderImage(format: ImageFormat): Promise<Uint8Array> {
+        const panel = ImportMapPanel.currentPanel;
+        if (!panel || !panel._panel.visible) {
+            // Hidden webviews do not run their script
+            return Promise.reject(new Error('Show the import map panel to save it as an image'));
+        }
+        const id = panel._nextImageId++;
+        return new Promise((resolve, reject) => {
+            panel._pendingImages.set(id, { format, resolve, reject });
+            panel._panel.webview.postMessage({ command: 'renderImage', id, format });
+        });
+    }
+
+    /**
+     * Settles an image request with the webview's reply: SVG text, base64 PNG data or an error
+     */
+    private resolveImage(id: number, data?: string, error?: string) {
+        const request = this._pendingImages.get(id);
+        if (!request) {
+            return;
+        }
+        this._pendingImages.delete(id);
+        if (data === undefined) {
+            request.reject(new Error(error || 'The map could not be rendered'));
+        } else {
+            request.resolve(Buffer.from(data, request.format === 'png' ? 'base64' : 'utf-8'));
+        }
+    }
+
+    /**
+     * Builds the export filter for what the webview shows
+     * 
+     * @param files - Ids of the shown file nodes (their paths)
+     * @param edges - Shown edges, from the imported node to the importing file, with their shown kinds
+     */
+    private static toExportFilter(files: string[], edges: { from: string; to: string; kinds: ImportKind[] }[]): ExportFilter {
+        const shownFiles = new Set(files);
+        const shownKinds = new Map(edges.map(edge => [JSON.stringify([edge.from, edge.to]), edge.kinds]));
+        return {
+            includeFile: filePath => shownFiles.has(filePath),
+            includeImport: (filePath, importInfo) => {
+                if (importInfo.unresolved) {
+                    return true; // Listed in the panel whatever the filters
+                }
+                const from = importInfo.isNodeModule ? `node_module:${importInfo.packageName || importInfo.source}` : importInfo.resolvedPath;
+                return !!shownKinds.get(JSON.stringify([from, filePath]))?.includes(importInfo.type);
+            }
+        };
+    }
+
+    /**
+     * Identifies an edge across updates; the webview builds the same key
+     */
+    private static getEdgeKey(edge: Pick<VisualizationEdge, 'from' | 'to' | 'viaBarrel'>): string {
+        return JSON.stringify([edge.from, edge.to, !!edge.viaBarrel]);
+    }
+
+    /**
+     * Compares two versions of a node or edge list by key
+     * 
+     * @returns The items only in the new list, the items whose content changed, and the keys of removed items
+     */
+    private static diffById<T>(previous: T[], next: T[], getKey: (item: T) => string): { added: T[]; updated: T[]; removed: string[] } {
+        const previousByKey = new Map(previous.map(item => [getKey(item), item]));
+        const nextKeys = new Set<string>();
+        const added: T[] = [];
+        const updated: T[] = [];
+        for (const item of next) {
+            const key = getKey(item);
+            nextKeys.add(key);
+            const previousItem = previousByKey.get(key);
+            if (!previousItem) {
+                added.push(item);
+            } else if (JSON.stringify(previousItem) !== JSON.stringify(item)) {
+                updated.push(item);
+            }
+        }
+        const removed = Array.from(previousByKey.keys()).filter(key => !nextKeys.has(key));
+        return { added, updated, removed };
+    }
+
+    /**
+     * Opens a file in VSCode editor when user double-clicks a node or an unresolved import.
      * 
      * @param filePath - Absolute path of the file to open
+     * @param line - Zero-based line to reveal and select
      */
-    private async openFile(filePath: string) {
+    private async openFile(filePath: string, line?: number) {
         try {
             const uri = vscode.Uri.file(filePath);
+            const assetType = getAssetType(filePath);
+            if (assetType && assetType !== 'stylesheet' && assetType !== 'json') {
+                // Binary assets open in their default editor (e.g. the image preview)
+                await vscode.commands.executeCommand('vscode.open', uri);
+                return;
+            }
             const document = await vscode.workspace.openTextDocument(uri);
-            await vscode.window.showTextDocument(document);
+            const selection = line !== undefined ? document.lineAt(Math.min(line, document.lineCount - 1)).range : undefined;
+            await vscode.window.showTextDocument(document, { selection });
         } catch (error) {
             vscode.window.showErrorMessage(`Could not open file: ${filePath}`);
         }
@@ -171,13 +375,22 @@ export class ImportMapPanel {
     private getHtmlForWebview(importMap?: ImportMap, currentFile?: string, isProjectMode = false): string {
         let nodes: VisualizationNode[] = [];
         let edges: VisualizationEdge[] = [];
+        let packageNodes: VisualizationNode[] = [];
+        let packageEdges: VisualizationEdge[] = [];
+        let unresolvedImports: UnresolvedImport[] = [];
         
         if (importMap) {
             const data = this.convertToVisualizationData(importMap, currentFile, isProjectMode);
             nodes = data.nodes;
             edges = data.edges;
+            const packageData = this.convertToPackageData(importMap, currentFile);
+            packageNodes = packageData.nodes;
+            packageEdges = packageData.edges;
+            unresolvedImports = collectUnresolvedImports(importMap);
         }
+        this._graph = importMap ? { nodes, edges, currentFile, isProjectMode } : undefined;
         
+        const settings = readPanelSettings(currentFile ? vscode.Uri.file(currentFile) : undefined);
         const nonce = this.getNonce();
 
         return `<!DOCTYPE html>
@@ -236,6 +449,19 @@ export class ImportMapPanel {
                         background: var(--vscode-button-hoverBackground);
                     }
                     
+                    .depth-controls {
+                        margin-top: 6px;
+                        font-size: 12px;
+                    }
+                    
+                    .depth-controls select {
+                        background: var(--vscode-dropdown-background);
+                        color: var(--vscode-dropdown-foreground);
+                        border: 1px solid var(--vscode-dropdown-border);
+                        margin: 0 6px 0 2px;
+                        font-size: 12px;
+                    }
+                    
                     .info-panel {
                         position: absolute;
                         bottom: 10px;
@@ -300,6 +526,45 @@ export class ImportMapPanel {
                         border-radius: 50%;
                         margin-right: 6px;
                     }
+                    
+                    .legend-title {
+                        margin: 6px 0 2px 0;
+                        font-weight: bold;
+                    }
+                    
+                    .legend-item input {
+                        margin: 0 4px 0 0;
+                    }
+                    
+                    .legend-line {
+                        margin-right: 6px;
+                    }
+                    
+                    .unresolved-panel {
+                        position: absolute;
+                        bottom: 10px;
+                        right: 10px;
+                        background: var(--vscode-editor-background);
+                        border: 1px solid var(--vscode-panel-border);
+                        border-radius: 4px;
+                        padding: 10px;
+                        max-width: 400px;
+                        max-height: 240px;
+                        overflow-y: auto;
+                        z-index: 1000;
+                        font-size: 11px;
+                        display: none;
+                    }
+                    
+                    .unresolved-item {
+                        padding: 2px 0;
+                        cursor: pointer;
+                        word-break: break-all;
+                    }
+                    
+                    .unresolved-item:hover {
+                        color: var(--vscode-textLink-foreground);
+                    }
                 </style>
             </head>
             <body>
@@ -324,35 +589,74 @@ export class ImportMapPanel {
                         </div>
                         <div class="legend-item">
                             <div class="legend-color" style="background: #FFA500;"></div>
-                            <span>Node Module</span>
+                            <span>Dependency</span>
+                        </div>
+                        <div class="legend-item">
+                            <div class="legend-color" style="background: #c9a227;"></div>
+                            <span>Dev Dependency</span>
+                        </div>
+                        <div class="legend-item">
+                            <div class="legend-color" style="background: #17a2b8;"></div>
+                            <span>Peer Dependency</span>
                         </div>
+                        <div class="legend-item">
+                            <div class="legend-color" style="background: #8d6e63;"></div>
+                            <span>Node Built-in</span>
+                        </div>
+                        <div class="legend-item">
+                            <div class="legend-color" style="background: #dc3545;"></div>
+                            <span>Undeclared Package</span>
+                        </div>
+                        <div class="legend-item">
+                            <div class="legend-color" style="background: #e83e8c;"></div>
+                            <span>Asset (stylesheet, image, font, JSON)</span>
+                        </div>
+                        <div class="legend-title">Edges</div>
+                        ${this.getEdgeLegendHtml()}
                     </div>
                     <div class="controls">
                         <button id="resetButton">Reset View</button>
                         <button id="centerButton">Center Current</button>
                         <button id="edgesButton">Show All Connections</button>
-                        <button id="nodeModulesButton">Show Node Modules</button>
+                        <button id="nodeModulesButton">${settings.showNodeModules ? 'Hide Node Modules' : 'Show Node Modules'}</button>
+                        <button id="assetsButton">Show Assets</button>
+                        <button id="namesButton">Show Imported Names</button>
+                        <button id="barrelsButton">Collapse Barrels</button>
+                        <button id="packagesButton" style="display: ${packageNodes.length > 0 ? 'inline-block' : 'none'};">Package View</button>
                         <button id="organizeButton">Organize Layout</button>
                         <button id="zoomInButton">Zoom In (+)</button>
                         <button id="zoomOutButton">Zoom Out (-)</button>
+                        <button id="exportButton">Export...</button>
+                        <button id="imageButton">Save Image...</button>
+                        <button id="unresolvedButton" style="display: ${unresolvedImports.length > 0 ? 'inline-block' : 'none'};">⚠️ Unresolved (${unresolvedImports.length})</button>
+                        ${!isProjectMode && importMap?.depth ? this.getDepthControlsHtml(importMap.depth) : ''}
                     </div>
                     <div id="info-panel" class="info-panel">
                         <div id="node-info" class="node-info"></div>
                     </div>
+                    <div id="unresolved-panel" class="unresolved-panel">
+                        <div class="legend-title">Unresolved imports</div>
+                        <div id="unresolved-list"></div>
+                    </div>
                 </div>
                 
                 <script nonce="${nonce}">
                     const vscode = acquireVsCodeApi();
                     const canvas = document.getElementById('canvas');
-                    const ctx = canvas.getContext('2d');
+                    let ctx = canvas.getContext('2d'); // Swapped for an image context while saving an image
                     const infoPanel = document.getElementById('info-panel');
                     const nodeInfo = document.getElementById('node-info');
                     
                     // Graph data
-                    const nodes = ${JSON.stringify(nodes)};
-                    const edges = ${JSON.stringify(edges)};
+                    const fileNodes = ${JSON.stringify(nodes)};
+                    const fileEdges = ${JSON.stringify(edges)};
+                    const packageNodes = ${JSON.stringify(packageNodes)};
+                    const packageEdges = ${JSON.stringify(packageEdges)};
+                    let nodes = fileNodes;
+                    let edges = fileEdges;
+                    let unresolvedImports = ${JSON.stringify(unresolvedImports)};
                     const currentFile = ${JSON.stringify(currentFile || null)};
-                    const hasData = ${JSON.stringify(nodes.length > 0)};
+                    let hasData = ${JSON.stringify(nodes.length > 0)};
                     
                     // Canvas and interaction state
                     let canvasWidth, canvasHeight;
@@ -364,19 +668,36 @@ export class ImportMapPanel {
                     let dragStartX, dragStartY;
                     let nodeStartX, nodeStartY;
                     let showLabels = true;
-                    let showNodeModules = false; // Default hide node modules
+                    let showNodeModules = ${JSON.stringify(settings.showNodeModules)}; // importMapExplorer.showNodeModules
+                    let showAssets = false; // Default hide stylesheets, images, fonts and JSON
                     let showAllEdges = false; // Default hide edges between non-current files
+                    let showImportedNames = false; // Default hide symbol labels on edges
+                    let collapseBarrels = false; // Default draw imports to barrel files as written
+                    let hiddenBarrels = new Set(); // Barrel node ids with no edges left while collapsed
+                    let showPackages = false; // Default show files instead of workspace packages
+                    let expandedPackages = new Set(); // External package node ids shown as their subpaths
+                    let hiddenEdgeKinds = new Set(); // Edge kinds unchecked in the legend
+                    let selectedNodeId = null; // Node shown in the info panel
                     
                     // Graph layout constants
                     const MIN_NODE_WIDTH = 60;
                     const MIN_NODE_HEIGHT = 30;
                     const NODE_PADDING = 20; // Padding around text
                     const LABEL_FONT = '11px var(--vscode-font-family), sans-serif';
+                    const DEFAULT_LAYOUT = ${JSON.stringify(settings.defaultLayout)}; // importMapExplorer.defaultLayout
+                    const NODES_PER_ROW = ${JSON.stringify(settings.nodesPerRow)}; // importMapExplorer.layout.nodesPerRow
                     const EDGE_COLOR = 'var(--vscode-textSeparator-foreground)';
+                    const EDGE_STYLES = ${JSON.stringify(ImportMapPanel.EDGE_STYLES)};
                     const NODE_COLORS = {
                         current: '#007ACC',        // Current file - blue
                         normal: '#888888',         // Regular project files - gray
                         nodeModule: '#FFA500',     // Node modules - orange
+                        dependency: '#FFA500',     // package.json dependencies - orange
+                        devDependency: '#c9a227',  // devDependencies - gold
+                        peerDependency: '#17a2b8', // peerDependencies - teal
+                        builtin: '#8d6e63',        // Node built-ins - brown
+                        undeclared: '#dc3545',     // Not declared in any package.json - red
+                        asset: '#e83e8c',          // Stylesheets and assets - pink
                         importsCurrent: '#28a745', // Files that import current file - green
                         importedByCurrent: '#6f42c1' // Files imported by current file - purple
                     };
@@ -420,7 +741,25 @@ export class ImportMapPanel {
                         canvas.style.width = rect.width + 'px';
                         canvas.style.height = rect.height + 'px';
                         
-                        // Calculate size for all nodes and determine their relationship colors
+                        classifyNodes();
+                        
+                        // Only layout if nodes don't have positions yet (saved or computed)
+                        const hasPositions = nodes.length > 0 && nodes.every(node => node.x !== undefined && node.y !== undefined);
+                        if (!hasPositions && !loadNodePositions()) {
+                            if (DEFAULT_LAYOUT === 'hierarchical') {
+                                layoutHierarchical();
+                            } else {
+                                layoutNodes(true);
+                            }
+                        }
+                        placeUnpositionedNodes();
+                        draw();
+                    }
+                    
+                    /**
+                     * Calculate the size of every node and its color from its relationship to the current file.
+                     */
+                    function classifyNodes() {
                         nodes.forEach(node => {
                             node.size = calculateNodeSize(node.label);
                             
@@ -428,7 +767,9 @@ export class ImportMapPanel {
                             if (node.isCurrentFile) {
                                 node.colorType = 'current';
                             } else if (node.isNodeModule) {
-                                node.colorType = 'nodeModule';
+                                node.colorType = node.dependencyType || 'nodeModule';
+                            } else if (node.assetType) {
+                                node.colorType = 'asset';
                             } else if (currentFile) {
                                 // Edge from A → B means B imports A
                                 // Check if current file imports this node (edge: this node → current file)
@@ -453,13 +794,107 @@ export class ImportMapPanel {
                                 node.colorType = 'normal';
                             }
                         });
+                    }
+                    
+                    /**
+                     * Place nodes that have no position yet (added by a live update, or missing from
+                     * restored positions) next to a connected node, or in the middle of the view.
+                     */
+                    function placeUnpositionedNodes() {
+                        const unpositioned = nodes.filter(node => node.x === undefined || node.y === undefined);
+                        unpositioned.forEach(node => {
+                            const neighbour = edges
+                                .filter(edge => edge.from === node.id || edge.to === node.id)
+                                .map(edge => nodes.find(n => n.id === (edge.from === node.id ? edge.to : edge.from)))
+                                .find(n => n && n.x !== undefined && n.y !== undefined);
+                            const anchorX = neighbour ? neighbour.x : (canvasWidth / (2 * window.devicePixelRatio) - offsetX) / scale;
+                            const anchorY = neighbour ? neighbour.y : (canvasHeight / (2 * window.devicePixelRatio) - offsetY) / scale;
+                            
+                            // Try points on growing circles around the anchor until one is free
+                            for (let attempt = 0; attempt < 48; attempt++) {
+                                const distance = 120 + Math.floor(attempt / 8) * 60;
+                                const angle = (attempt % 8) * Math.PI / 4 + Math.floor(attempt / 8) * 0.4;
+                                node.x = anchorX + Math.cos(angle) * distance;
+                                node.y = anchorY + Math.sin(angle) * distance;
+                                if (!nodes.some(other => other !== node && other.x !== undefined && isNodeVisible(other) && nodesOverlap(node, other))) {
+                                    break;
+                                }
+                            }
+                        });
+                    }
+                    
+                    /**
+                     * Build the key the extension uses to identify an edge across updates.
+                     * @param {object} edge - The edge
+                     * @returns {string} Edge key
+                     */
+                    function getEdgeKey(edge) {
+                        return JSON.stringify([edge.from, edge.to, !!edge.viaBarrel]);
+                    }
+                    
+                    /**
+                     * Apply added, updated and removed items to a node or edge list in place.
+                     * Updated nodes keep their position.
+                     * @param {Array} list - The list to patch
+                     * @param {object} delta - Items added and updated, and keys removed
+                     * @param {Function} getKey - Returns the key of an item
+                     */
+                    function patchList(list, delta, getKey) {
+                        const removed = new Set(delta.removed);
+                        const updated = new Map(delta.updated.map(item => [getKey(item), item]));
+                        for (let i = list.length - 1; i >= 0; i--) {
+                            const key = getKey(list[i]);
+                            if (removed.has(key)) {
+                                list.splice(i, 1);
+                            } else if (updated.has(key)) {
+                                const item = Object.assign({}, updated.get(key), { x: list[i].x, y: list[i].y });
+                                if (draggedNode === list[i]) {
+                                    draggedNode = item;
+                                }
+                                list[i] = item;
+                            }
+                        }
+                        list.push(...delta.added);
+                    }
+                    
+                    /**
+                     * Patch the graph with the changes the extension found after files changed on disk.
+                     * Zoom, pan, node positions and the selected node are kept; new nodes are placed next to a connected node.
+                     * @param {object} update - Node and edge changes, and the new package graph and unresolved imports
+                     */
+                    function applyGraphUpdate(update) {
+                        patchList(fileNodes, update.nodes, node => node.id);
+                        patchList(fileEdges, update.edges, getEdgeKey);
+                        
+                        // The package graph is small: replace it, keeping the positions of known packages
+                        const packagePositions = new Map(packageNodes.map(node => [node.id, node]));
+                        packageNodes.splice(0, packageNodes.length, ...update.packageNodes.map(node => {
+                            const previous = packagePositions.get(node.id);
+                            return previous ? Object.assign(node, { x: previous.x, y: previous.y }) : node;
+                        }));
+                        packageEdges.splice(0, packageEdges.length, ...update.packageEdges);
+                        document.getElementById('packagesButton').style.display = packageNodes.length > 0 ? 'inline-block' : 'none';
+                        
+                        unresolvedImports = update.unresolvedImports;
+                        updateUnresolvedButton();
+                        if (document.getElementById('unresolved-panel').style.display === 'block') {
+                            renderUnresolvedList();
+                        }
                         
-                        // Only layout if nodes don't have positions yet
-                        const hasPositions = nodes.length > 0 && nodes.every(node => node.x !== undefined && node.y !== undefined);
-                        if (!hasPositions) {
-                            layoutNodes();
+                        hasData = fileNodes.length > 0;
+                        classifyNodes();
+                        placeUnpositionedNodes();
+                        updateHiddenBarrels();
+                        
+                        const selectedNode = selectedNodeId && nodes.find(node => node.id === selectedNodeId);
+                        if (selectedNode) {
+                            showNodeInfo(selectedNode);
+                        } else {
+                            hideNodeInfo();
                         }
+                        saveNodePositions();
                         draw();
+                        console.log('🔄 Applied live update:', update.nodes.added.length, 'added,', update.nodes.removed.length, 'removed,', update.nodes.updated.length, 'updated nodes');
                     }
                     
                     /**
@@ -619,18 +1054,20 @@ export class ImportMapPanel {
                         ctx.save();
                         ctx.translate(offsetX, offsetY);
                         ctx.scale(scale, scale);
-                        
-                        // Filter nodes and edges based on settings
-                        const visibleNodes = nodes.filter(node => {
-                            if (node.isNodeModule && !showNodeModules) {
-                                return false;
-                            }
-                            return true;
-                        });
+                        drawGraph(getVisibleGraph());
+                        ctx.restore();
+                    }
+                    
+                    /**
+                     * Filter nodes and edges based on settings.
+                     * @returns {{nodes: object[], edges: object[]}} The nodes and edges to draw
+                     */
+                    function getVisibleGraph() {
+                        const visibleNodes = nodes.filter(isNodeVisible);
                         
                         const visibleNodeIds = new Set(visibleNodes.map(n => n.id));
                         const visibleEdges = edges.filter(edge => {
-                            if (!visibleNodeIds.has(edge.from) || !visibleNodeIds.has(edge.to)) {
+                            if (!isEdgeActive(edge) || !getEdgeKind(edge) || !visibleNodeIds.has(edge.from) || !visibleNodeIds.has(edge.to)) {
                                 return false;
                             }
                             
@@ -642,26 +1079,29 @@ export class ImportMapPanel {
                             // Show edges between other files only if showAllEdges is true
                             return showAllEdges;
                         });
-                        
-                        // Draw edges
+                        return { nodes: visibleNodes, edges: visibleEdges };
+                    }
+                    
+                    /**
+                     * Draw edges, then nodes on top of them, in graph coordinates.
+                     * @param {{nodes: object[], edges: object[]}} visibleGraph - The nodes and edges to draw
+                     */
+                    function drawGraph(visibleGraph) {
                         ctx.strokeStyle = '#666';
                         ctx.lineWidth = 1;
                         
-                        visibleEdges.forEach((edge, index) => {
+                        visibleGraph.edges.forEach(edge => {
                             const fromNode = nodes.find(n => n.id === edge.from);
                             const toNode = nodes.find(n => n.id === edge.to);
                             
                             if (fromNode && toNode) {
-                                drawEdge(fromNode, toNode, edge.type);
+                                drawEdge(fromNode, toNode, edge);
                             }
                         });
                         
-                        // Draw nodes
-                        visibleNodes.forEach(node => {
+                        visibleGraph.nodes.forEach(node => {
                             drawNode(node);
                         });
-                        
-                        ctx.restore();
                     }
                     
                     function drawNode(node) {
@@ -728,7 +1168,7 @@ export class ImportMapPanel {
                         }
                     }
                     
-                    function drawEdge(fromNode, toNode, type) {
+                    function drawEdge(fromNode, toNode, edge) {
                         // Now fromNode is dependency, toNode is the file that imports it
                         const dx = toNode.x - fromNode.x;
                         const dy = toNode.y - fromNode.y;
@@ -770,11 +1210,15 @@ export class ImportMapPanel {
                         const arrowTipX = endPoint.x - unitX * arrowGap;
                         const arrowTipY = endPoint.y - unitY * arrowGap;
                         
-                        // Draw line to arrow tip position (not to the node edge)
+                        // Draw line to arrow tip position (not to the node edge), styled by import kind
+                        const style = EDGE_STYLES[getEdgeKind(edge)] || EDGE_STYLES.import;
+                        ctx.strokeStyle = style.color;
+                        ctx.setLineDash(style.dash);
                         ctx.beginPath();
                         ctx.moveTo(startPoint.x, startPoint.y);
                         ctx.lineTo(arrowTipX, arrowTipY);
                         ctx.stroke();
+                        ctx.setLineDash([]);
                         
                         // Draw arrow pointing TO the importing file with enhanced visibility
                         const arrowLength = 10;
@@ -785,9 +1229,8 @@ export class ImportMapPanel {
                         const originalStrokeStyle = ctx.strokeStyle;
                         const originalLineWidth = ctx.lineWidth;
                         
-                        // Make arrow more visible with darker color and thicker line
-                        ctx.strokeStyle = '#333333'; // Darker gray for better visibility
-                        ctx.fillStyle = '#333333';   // Same color for fill
+                        // Make arrow more visible with a thicker line in the edge color
+                        ctx.fillStyle = style.color;
                         ctx.lineWidth = 2.5;         // Thicker arrow lines
                         
                         // Draw filled arrow head for better visibility at the offset position
@@ -809,17 +1252,39 @@ export class ImportMapPanel {
                         ctx.strokeStyle = originalStrokeStyle;
                         ctx.lineWidth = originalLineWidth;
                         
-                        // Label for import type (optional)
-                        if (type === 'require') {
+                        // Label for imported names (optional)
+                        if (showImportedNames && edge.importedNames && edge.importedNames.length > 0) {
                             const midX = (startPoint.x + arrowTipX) / 2;
                             const midY = (startPoint.y + arrowTipY) / 2;
                             ctx.fillStyle = '#999';
                             ctx.font = '9px sans-serif';
                             ctx.textAlign = 'center';
-                            ctx.fillText('req', midX, midY - 5);
+                            ctx.fillText(formatImportedNames(edge.importedNames), midX, midY - 5);
                         }
                     }
                     
+                    /**
+                     * Pick the kind an edge is drawn as: its most significant kind that is not hidden.
+                     * @param {object} edge - The edge object
+                     * @returns {string|undefined} The edge kind, or undefined when all its kinds are hidden
+                     */
+                    function getEdgeKind(edge) {
+                        return (edge.kinds || [edge.type]).find(kind => !hiddenEdgeKinds.has(kind));
+                    }
+                    
+                    /**
+                     * Format imported binding names for display, e.g. "{ formatDate, default }".
+                     * Long lists are truncated to keep edge labels readable.
+                     * @param {string[]} names - Imported binding names
+                     * @returns {string} Display string
+                     */
+                    function formatImportedNames(names) {
+                        const maxNames = 4;
+                        const shown = names.slice(0, maxNames).join(', ');
+                        const more = names.length > maxNames ? \`, +\${names.length - maxNames}\` : '';
+                        return \`{ \${shown}\${more} }\`;
+                    }
+                    
                     function getMousePos(e) {
                         const rect = canvas.getBoundingClientRect();
                         return {
@@ -828,10 +1293,72 @@ export class ImportMapPanel {
                         };
                     }
                     
+                    /**
+                     * Check whether an edge belongs to the current barrel mode.
+                     * Collapsed mode swaps imports of barrel files for edges to the defining files.
+                     * @param {object} edge - The edge object
+                     * @returns {boolean} True if the edge should be considered for drawing
+                     */
+                    function isEdgeActive(edge) {
+                        if (edge.subpathOf) {
+                            return expandedPackages.has(edge.subpathOf);
+                        }
+                        if (expandedPackages.has(edge.from)) {
+                            return false;
+                        }
+                        if (edge.viaBarrel) {
+                            return collapseBarrels;
+                        }
+                        if (collapseBarrels && (edge.collapsible || edge.type === 're-export')) {
+                            return false;
+                        }
+                        return true;
+                    }
+                    
+                    /**
+                     * Check whether a node is shown with the current toggle settings.
+                     * @param {object} node - The node object
+                     * @returns {boolean} True if the node should be drawn
+                     */
+                    function isNodeVisible(node) {
+                        if (node.isNodeModule && !showNodeModules) {
+                            return false;
+                        }
+                        if (node.parentPackage ? !expandedPackages.has(node.parentPackage) : expandedPackages.has(node.id)) {
+                            return false;
+                        }
+                        if (node.assetType && !showAssets && !node.isCurrentFile) {
+                            return false;
+                        }
+                        if (node.collapsedOnly && !collapseBarrels) {
+                            return false;
+                        }
+                        return !hiddenBarrels.has(node.id);
+                    }
+                    
+                    /**
+                     * Recompute which barrel nodes become orphans once their edges are collapsed.
+                     */
+                    function updateHiddenBarrels() {
+                        hiddenBarrels = new Set();
+                        if (!collapseBarrels) return;
+                        
+                        const connected = new Set();
+                        edges.filter(isEdgeActive).forEach(edge => {
+                            connected.add(edge.from);
+                            connected.add(edge.to);
+                        });
+                        nodes.forEach(node => {
+                            if (node.isBarrel && !node.isCurrentFile && !connected.has(node.id)) {
+                                hiddenBarrels.add(node.id);
+                            }
+                        });
+                    }
+                    
                     function getNodeAt(x, y) {
                         return nodes.find(node => {
-                            // Skip hidden node modules
-                            if (node.isNodeModule && !showNodeModules) {
+                            // Skip hidden nodes
+                            if (!isNodeVisible(node)) {
                                 return false;
                             }
                             
@@ -908,8 +1435,9 @@ export class ImportMapPanel {
                             
                             // Show tooltip for hovered node
                             if (node) {
-                                canvas.title = node.isNodeModule ? node.path : 
+                                const nodePath = node.isNodeModule ? node.path : 
                                               (node.path.startsWith('./') ? node.path.substring(2) : node.path);
+                                canvas.title = node.root ? \`[\${node.root}] \${nodePath}\` : nodePath;
                             } else {
                                 canvas.title = '';
                             }
@@ -959,17 +1487,28 @@ export class ImportMapPanel {
                                 command: 'openFile',
                                 filePath: node.path
                             });
+                        } else if (node) {
+                            togglePackageExpansion(node.parentPackage || node.id);
                         }
                     });
                     
                     function showNodeInfo(node) {
-                        const relatedEdges = edges.filter(e => e.from === node.id || e.to === node.id);
+                        selectedNodeId = node.id;
+                        const relatedEdges = edges.filter(e => isEdgeActive(e) && (e.from === node.id || e.to === node.id));
                         const imports = relatedEdges.filter(e => e.to === node.id).map(e => 
-                            nodes.find(n => n.id === e.from)
-                        ).filter(Boolean);
+                            ({ node: nodes.find(n => n.id === e.from), edge: e })
+                        ).filter(item => item.node);
                         const importedBy = relatedEdges.filter(e => e.from === node.id).map(e => 
-                            nodes.find(n => n.id === e.to)
-                        ).filter(Boolean);
+                            ({ node: nodes.find(n => n.id === e.to), edge: e })
+                        ).filter(item => item.node);
+                        const namesSuffix = (edge) => {
+                            const kinds = (edge.kinds || [edge.type]).filter(kind => kind !== 'import');
+                            const kindText = kinds.length > 0 ? \` <span style="opacity: 0.6;">(\${kinds.join(', ')})</span>\` : '';
+                            const namesText = edge.importedNames && edge.importedNames.length > 0
+                                ? \` <span style="opacity: 0.8;">\${formatImportedNames(edge.importedNames)}</span>\`
+                                : '';
+                            return kindText + namesText;
+                        };
                         
                         // Show relative path for project files, full path for node modules
                         let displayPath;
@@ -987,14 +1526,26 @@ export class ImportMapPanel {
                         let html = \`
                             <h3>\${node.label}</h3>
                             <p><strong>Path:</strong> \${displayPath}</p>
-                            <p><strong>Type:</strong> \${node.isNodeModule ? 'Node Module' : 'Project File'}</p>
+                            \${node.root ? \`<p><strong>Workspace Folder:</strong> \${node.root}</p>\` : ''}
+                            <p><strong>Type:</strong> \${node.isPackage ? 'Workspace Package' : node.isNodeModule ? \`Node Module (\${node.dependencyType || 'external'})\` : node.assetType ? \`Asset (\${node.assetType})\` : 'Project File'}</p>
                         \`;
                         
+                        if (node.subpaths && node.subpaths.length > 0) {
+                            html += \`<p><strong>Subpaths used:</strong> \${node.subpaths.join(', ')}</p>\`;
+                            if (node.subpaths.some(subpath => subpath !== node.label)) {
+                                html += \`<p style="font-size: 10px; font-style: italic;">💡 Double-click to expand into subpaths</p>\`;
+                            }
+                        }
+                        
+                        if (node.assetType && importedBy.length === 0) {
+                            html += \`<p>⚠️ Not referenced by any file</p>\`;
+                        }
+                        
                         if (imports.length > 0) {
                             html += \`
                                 <div class="import-list">
                                     <strong>This file imports (\${imports.length}):</strong>
-                                    \${imports.map(n => \`<div class="import-item">→ \${n.label}</div>\`).join('')}
+                                    \${imports.map(item => \`<div class="import-item">→ \${item.node.label}\${namesSuffix(item.edge)}</div>\`).join('')}
                                 </div>
                             \`;
                         }
@@ -1003,7 +1554,7 @@ export class ImportMapPanel {
                             html += \`
                                 <div class="import-list">
                                     <strong>Imported by (\${importedBy.length}):</strong>
-                                    \${importedBy.map(n => \`<div class="import-item">← \${n.label}</div>\`).join('')}
+                                    \${importedBy.map(item => \`<div class="import-item">← \${item.node.label}\${namesSuffix(item.edge)}</div>\`).join('')}
                                 </div>
                             \`;
                         }
@@ -1029,6 +1580,7 @@ export class ImportMapPanel {
                     }
                     
                     function hideNodeInfo() {
+                        selectedNodeId = null;
                         infoPanel.style.display = 'none';
                     }
                     
@@ -1058,6 +1610,129 @@ export class ImportMapPanel {
                         draw();
                     }
                     
+                    /**
+                     * Expand an external package into one node per imported subpath, or collapse it back.
+                     * Subpath nodes are placed in a row below the package node when first expanded.
+                     * @param {string} packageId - Id of the package node
+                     */
+                    function togglePackageExpansion(packageId) {
+                        const packageNode = nodes.find(n => n.id === packageId);
+                        const subpathNodes = nodes.filter(n => n.parentPackage === packageId);
+                        if (!packageNode || (subpathNodes.length <= 1 && !expandedPackages.has(packageId))) {
+                            return;
+                        }
+                        
+                        if (expandedPackages.has(packageId)) {
+                            expandedPackages.delete(packageId);
+                        } else {
+                            expandedPackages.add(packageId);
+                            subpathNodes.forEach((node, index) => {
+                                node.x = packageNode.x + (index - (subpathNodes.length - 1) / 2) * 140;
+                                node.y = packageNode.y + 60;
+                            });
+                        }
+                        hideNodeInfo();
+                        draw();
+                    }
+                    
+                    /**
+                     * Show or hide the list of imports that do not resolve to a file.
+                     */
+                    function toggleUnresolvedList() {
+                        const panel = document.getElementById('unresolved-panel');
+                        if (panel.style.display === 'block') {
+                            panel.style.display = 'none';
+                            return;
+                        }
+                        renderUnresolvedList();
+                        panel.style.display = 'block';
+                    }
+                    
+                    /**
+                     * Fill the unresolved imports list; clicking an entry opens the importing file at the import line.
+                     */
+                    function renderUnresolvedList() {
+                        const list = document.getElementById('unresolved-list');
+                        list.innerHTML = '';
+                        unresolvedImports.forEach(unresolved => {
+                            const item = document.createElement('div');
+                            item.className = 'unresolved-item';
+                            item.title = unresolved.filePath;
+                            const fileName = unresolved.filePath.split(/[\\\\/]/).pop();
+                            const location = unresolved.line !== undefined ? fileName + ':' + (unresolved.line + 1) : fileName;
+                            item.textContent = location + ' → ' + unresolved.source;
+                            item.addEventListener('click', () => {
+                                vscode.postMessage({
+                                    command: 'openFile',
+                                    filePath: unresolved.filePath,
+                                    line: unresolved.line
+                                });
+                            });
+                            list.appendChild(item);
+                        });
+                    }
+                    
+                    function updateUnresolvedButton() {
+                        const button = document.getElementById('unresolvedButton');
+                        button.textContent = '⚠️ Unresolved (' + unresolvedImports.length + ')';
+                        button.style.display = unresolvedImports.length > 0 ? 'inline-block' : 'none';
+                        if (unresolvedImports.length === 0) {
+                            document.getElementById('unresolved-panel').style.display = 'none';
+                        }
+                    }
+                    
+                    function toggleAssets() {
+                        showAssets = !showAssets;
+                        const button = document.getElementById('assetsButton');
+                        button.textContent = showAssets ? 'Hide Assets' : 'Show Assets';
+                        draw();
+                    }
+                    
+                    /**
+                     * Switch between the file graph and the workspace package graph.
+                     * Each graph keeps its own saved node positions.
+                     */
+                    function togglePackageView() {
+                        saveNodePositions();
+                        showPackages = !showPackages;
+                        nodes = showPackages ? packageNodes : fileNodes;
+                        edges = showPackages ? packageEdges : fileEdges;
+                        hideNodeInfo();
+                        updateHiddenBarrels();
+                        const button = document.getElementById('packagesButton');
+                        button.textContent = showPackages ? 'File View' : 'Package View';
+                        initCanvas();
+                    }
+                    
+                    function toggleBarrels() {
+                        collapseBarrels = !collapseBarrels;
+                        updateHiddenBarrels();
+                        const button = document.getElementById('barrelsButton');
+                        button.textContent = collapseBarrels ? 'Expand Barrels' : 'Collapse Barrels';
+                        draw();
+                    }
+                    
+                    function toggleImportedNames() {
+                        showImportedNames = !showImportedNames;
+                        const button = document.getElementById('namesButton');
+                        button.textContent = showImportedNames ? 'Hide Imported Names' : 'Show Imported Names';
+                        draw();
+                    }
+                    
+                    /**
+                     * Show or hide one kind of edge from the legend checkboxes.
+                     * @param {string} kind - The edge kind
+                     * @param {boolean} visible - Whether edges of this kind are drawn
+                     */
+                    function toggleEdgeKind(kind, visible) {
+                        if (visible) {
+                            hiddenEdgeKinds.delete(kind);
+                        } else {
+                            hiddenEdgeKinds.add(kind);
+                        }
+                        draw();
+                    }
+                    
                     function toggleEdges() {
                         showAllEdges = !showAllEdges;
                         const button = document.getElementById('edgesButton');
@@ -1097,7 +1772,7 @@ export class ImportMapPanel {
                     }
                     
                     /**
-                     * Layout nodes in multiple rows with max 8 nodes per row
+                     * Layout nodes in multiple rows with at most NODES_PER_ROW nodes per row
                      * @param {array} nodes - Array of nodes to layout
                      * @param {number} centerX - Center X position for the group
                      * @param {number} startY - Starting Y position for the first row
@@ -1105,7 +1780,7 @@ export class ImportMapPanel {
                      * @param {number} verticalSpacing - Vertical spacing between rows
                      */
                     function layoutNodesInRows(nodes, centerX, startY, horizontalSpacing, verticalSpacing) {
-                        const maxNodesPerRow = 8;
+                        const maxNodesPerRow = NODES_PER_ROW;
                         const numRows = Math.ceil(nodes.length / maxNodesPerRow);
                         
                         for (let row = 0; row < numRows; row++) {
@@ -1187,7 +1862,7 @@ export class ImportMapPanel {
                         // Layout nodes that import current file (above)
                         if (nodesImportingCurrent.length > 0) {
                             // Calculate how many rows we need and adjust starting position
-                            const numRowsAbove = Math.ceil(nodesImportingCurrent.length / 8);
+                            const numRowsAbove = Math.ceil(nodesImportingCurrent.length / NODES_PER_ROW);
                             const aboveStartY = centerY - verticalSpacing * numRowsAbove;
                             layoutNodesInRows(nodesImportingCurrent, centerX, aboveStartY, horizontalSpacing, verticalSpacing);
                         }
@@ -1200,7 +1875,7 @@ export class ImportMapPanel {
                         // Layout node modules (further below)
                         if (nodeModules.length > 0) {
                             // Calculate spacing based on how many rows the imported nodes take
-                            const numRowsImported = nodesImportedByCurrent.length > 0 ? Math.ceil(nodesImportedByCurrent.length / 8) : 0;
+                            const numRowsImported = nodesImportedByCurrent.length > 0 ? Math.ceil(nodesImportedByCurrent.length / NODES_PER_ROW) : 0;
                             const moduleStartY = centerY + verticalSpacing * (1 + numRowsImported);
                             layoutNodesInRows(nodeModules, centerX, moduleStartY, horizontalSpacing, verticalSpacing);
                         }
@@ -1228,9 +1903,213 @@ export class ImportMapPanel {
                         document.getElementById('centerButton').addEventListener('click', centerOnCurrent);
                         document.getElementById('edgesButton').addEventListener('click', toggleEdges);
                         document.getElementById('nodeModulesButton').addEventListener('click', toggleNodeModules);
+                        document.getElementById('assetsButton').addEventListener('click', toggleAssets);
+                        document.getElementById('namesButton').addEventListener('click', toggleImportedNames);
+                        document.getElementById('barrelsButton').addEventListener('click', toggleBarrels);
+                        document.getElementById('packagesButton').addEventListener('click', togglePackageView);
                         document.getElementById('organizeButton').addEventListener('click', organizeLayout);
                         document.getElementById('zoomInButton').addEventListener('click', zoomIn);
                         document.getElementById('zoomOutButton').addEventListener('click', zoomOut);
+                        document.getElementById('unresolvedButton').addEventListener('click', toggleUnresolvedList);
+                        document.getElementById('exportButton').addEventListener('click', exportGraph);
+                        document.getElementById('imageButton').addEventListener('click', () => vscode.postMessage({ command: 'saveImage' }));
+                        document.querySelectorAll('.edge-kind-toggle').forEach(input => {
+                            input.addEventListener('change', () => toggleEdgeKind(input.dataset.kind, input.checked));
+                        });
+                        document.querySelectorAll('.depth-select').forEach(select => {
+                            select.addEventListener('change', changeDepth);
+                        });
+                    }
+                    
+                    /**
+                     * Ask the extension to analyze the current file again with the picked depths (0 = unlimited).
+                     * Positions are saved first so the nodes kept in the new map stay where they were.
+                     */
+                    function changeDepth() {
+                        saveNodePositions();
+                        document.querySelectorAll('.depth-select').forEach(select => select.disabled = true);
+                        vscode.postMessage({
+                            command: 'changeDepth',
+                            importers: Number(document.getElementById('importerDepthSelect').value),
+                            dependencies: Number(document.getElementById('dependencyDepthSelect').value)
+                        });
+                    }
+                    
+                    /**
+                     * Send the files and imports the map shows with the current filters to the extension, which
+                     * asks for a format and a file to export them to. Collapsed barrels, expanded packages and
+                     * the package view only change the drawing: the export has the file imports as written.
+                     */
+                    function exportGraph() {
+                        const files = fileNodes.filter(node => !node.isNodeModule && !node.collapsedOnly &&
+                            (!node.assetType || showAssets || node.isCurrentFile));
+                        const shownIds = new Set(files.map(node => node.id));
+                        fileNodes.forEach(node => {
+                            if (node.isNodeModule && !node.parentPackage && showNodeModules) {
+                                shownIds.add(node.id);
+                            }
+                        });
+                        const shownEdges = fileEdges.filter(edge => !edge.viaBarrel && !edge.subpathOf && getEdgeKind(edge) &&
+                            shownIds.has(edge.from) && shownIds.has(edge.to) &&
+                            (showAllEdges || (currentFile && (edge.from === currentFile || edge.to === currentFile))));
+                        vscode.postMessage({
+                            command: 'exportGraph',
+                            files: files.map(node => node.id),
+                            edges: shownEdges.map(edge => ({
+                                from: edge.from,
+                                to: edge.to,
+                                kinds: (edge.kinds || [edge.type]).filter(kind => !hiddenEdgeKinds.has(kind))
+                            }))
+                        });
+                    }
+                    
+                    const IMAGE_MARGIN = 40; // Space around the graph in saved images
+                    const MAX_IMAGE_SIZE = 16384; // Largest canvas side browsers can render
+                    
+                    /**
+                     * Render the whole graph as shown, not only the part in view, for the extension to save.
+                     * The image is drawn by drawNode and drawEdge, on an offscreen canvas for PNG (at least
+                     * two pixels per unit, for high-DPI screens) or on a context recording SVG elements.
+                     * @param {number} id - Request id, sent back with the image
+                     * @param {string} format - 'svg' or 'png'
+                     */
+                    function renderImage(id, format) {
+                        try {
+                            const visibleGraph = getVisibleGraph();
+                            if (!hasData || visibleGraph.nodes.length === 0) {
+                                throw new Error('The map has no nodes to save');
+                            }
+                            
+                            const bounds = getGraphBounds(visibleGraph.nodes);
+                            const background = getComputedStyle(document.body).backgroundColor;
+                            const viewContext = ctx;
+                            let data;
+                            try {
+                                if (format === 'svg') {
+                                    ctx = createSvgContext(viewContext);
+                                    drawGraph(visibleGraph);
+                                    data = ctx.toSvg(bounds, background);
+                                } else {
+                                    const pixelRatio = Math.min(Math.max(2, window.devicePixelRatio), MAX_IMAGE_SIZE / Math.max(bounds.width, bounds.height));
+                                    const imageCanvas = document.createElement('canvas');
+                                    imageCanvas.width = Math.ceil(bounds.width * pixelRatio);
+                                    imageCanvas.height = Math.ceil(bounds.height * pixelRatio);
+                                    ctx = imageCanvas.getContext('2d');
+                                    ctx.fillStyle = background;
+                                    ctx.fillRect(0, 0, imageCanvas.width, imageCanvas.height);
+                                    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, -bounds.x * pixelRatio, -bounds.y * pixelRatio);
+                                    drawGraph(visibleGraph);
+                                    data = imageCanvas.toDataURL('image/png').split(',')[1];
+                                }
+                            } finally {
+                                ctx = viewContext;
+                            }
+                            vscode.postMessage({ command: 'imageRendered', id, data });
+                        } catch (error) {
+                            vscode.postMessage({ command: 'imageRendered', id, error: String(error && error.message || error) });
+                        }
+                    }
+                    
+                    /**
+                     * Area covered by nodes, with a margin for arrows and imported-name labels.
+                     * @param {object[]} graphNodes - The drawn nodes
+                     * @returns {{x: number, y: number, width: number, height: number}} Bounds in graph coordinates
+                     */
+                    function getGraphBounds(graphNodes) {
+                        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+                        graphNodes.forEach(node => {
+                            const size = getNodeSize(node);
+                            minX = Math.min(minX, node.x - size.width / 2);
+                            minY = Math.min(minY, node.y - size.height / 2);
+                            maxX = Math.max(maxX, node.x + size.width / 2);
+                            maxY = Math.max(maxY, node.y + size.height / 2);
+                        });
+                        return {
+                            x: minX - IMAGE_MARGIN,
+                            y: minY - IMAGE_MARGIN,
+                            width: maxX - minX + IMAGE_MARGIN * 2,
+                            height: maxY - minY + IMAGE_MARGIN * 2
+                        };
+                    }
+                    
+                    /**
+                     * A stand-in for the canvas context with the calls drawNode and drawEdge make, which
+                     * records SVG elements instead of painting pixels.
+                     * @param {object} canvasContext - The map's canvas context, used to measure text
+                     * @returns {object} The context; toSvg(bounds, background) returns the SVG document
+                     */
+                    function createSvgContext(canvasContext) {
+                        const elements = [];
+                        let pathData = '';
+                        let lineDash = [];
+                        const escape = value => String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+                        const round = value => Math.round(value * 100) / 100;
+                        const point = (x, y) => round(x) + ' ' + round(y);
+                        // Canvas fonts cannot use CSS variables; the SVG gets the resolved editor font
+                        const fontFamily = getComputedStyle(document.body).getPropertyValue('--vscode-font-family').trim() || 'sans-serif';
+                        
+                        return {
+                            fillStyle: '#000',
+                            strokeStyle: '#000',
+                            lineWidth: 1,
+                            font: LABEL_FONT,
+                            textAlign: 'start',
+                            textBaseline: 'alphabetic',
+                            // Shadows only mark the dragged node on screen
+                            shadowBlur: 0,
+                            shadowColor: 'transparent',
+                            shadowOffsetX: 0,
+                            shadowOffsetY: 0,
+                            setLineDash(dash) { lineDash = dash; },
+                            beginPath() { pathData = ''; },
+                            moveTo(x, y) { pathData += 'M' + point(x, y); },
+                            lineTo(x, y) { pathData += 'L' + point(x, y); },
+                            closePath() { pathData += 'Z'; },
+                            rect(x, y, width, height) {
+                                pathData += 'M' + point(x, y) + 'H' + round(x + width) + 'V' + round(y + height) + 'H' + round(x) + 'Z';
+                            },
+                            roundRect(x, y, width, height, radius) {
+                                const r = Math.min(radius, width / 2, height / 2);
+                                const arc = (endX, endY) => 'A' + round(r) + ' ' + round(r) + ' 0 0 1 ' + point(endX, endY);
+                                pathData += 'M' + point(x + r, y) +
+                                    'H' + round(x + width - r) + arc(x + width, y + r) +
+                                    'V' + round(y + height - r) + arc(x + width - r, y + height) +
+                                    'H' + round(x + r) + arc(x, y + height - r) +
+                                    'V' + round(y + r) + arc(x + r, y) + 'Z';
+                            },
+                            fill() {
+                                elements.push('<path d="' + pathData + '" fill="' + escape(this.fillStyle) + '"/>');
+                            },
+                            stroke() {
+                                const dash = lineDash.length > 0 ? ' stroke-dasharray="' + lineDash.join(' ') + '"' : '';
+                                elements.push('<path d="' + pathData + '" fill="none" stroke="' + escape(this.strokeStyle) + '" stroke-width="' + this.lineWidth + '"' + dash + '/>');
+                            },
+                            fillText(text, x, y) {
+                                const anchor = { center: 'middle', end: 'end', right: 'end' }[this.textAlign] || 'start';
+                                const baseline = this.textBaseline === 'middle' ? ' dominant-baseline="central"' : '';
+                                const font = this.font.replace('var(--vscode-font-family)', fontFamily);
+                                elements.push('<text x="' + round(x) + '" y="' + round(y) + '" fill="' + escape(this.fillStyle) + '" text-anchor="' + anchor + '"' + baseline + ' style="font: ' + escape(font) + '">' + escape(text) + '</text>');
+                            },
+                            measureText(text) {
+                                canvasContext.font = this.font;
+                                return canvasContext.measureText(text);
+                            },
+                            toSvg(bounds, background) {
+                                const viewBox = [bounds.x, bounds.y, bounds.width, bounds.height].map(round).join(' ');
+                                return '<?xml version="1.0" encoding="UTF-8"?>\\n' +
+                                    '<svg xmlns="http://www.w3.org/2000/svg" width="' + round(bounds.width) + '" height="' + round(bounds.height) + '" viewBox="' + viewBox + '">\\n' +
+                                    '<rect x="' + round(bounds.x) + '" y="' + round(bounds.y) + '" width="' + round(bounds.width) + '" height="' + round(bounds.height) + '" fill="' + escape(background) + '"/>\\n' +
+                                    elements.join('\\n') + '\\n</svg>\\n';
+                            }
+                        };
+                    }
+                    
+                    /**
+                     * Build the localStorage key for saved positions of the current file and view.
+                     * @returns {string} Storage key
+                     */
+                    function getPositionsStorageKey() {
+                        return 'importMap_positions_' + (currentFile || 'project') + (showPackages ? ':packages' : '');
                     }
                     
                     /**
@@ -1245,7 +2124,7 @@ export class ImportMapPanel {
                             positions[node.id] = { x: node.x, y: node.y };
                         });
                         
-                        const storageKey = 'importMap_positions_' + (currentFile || 'project');
+                        const storageKey = getPositionsStorageKey();
                         localStorage.setItem(storageKey, JSON.stringify(positions));
                         console.log('💾 Saved node positions for:', currentFile || 'project');
                     }
@@ -1256,7 +2135,7 @@ export class ImportMapPanel {
                      * @returns {boolean} True if positions were successfully restored
                      */
                     function loadNodePositions() {
-                        const storageKey = 'importMap_positions_' + (currentFile || 'project');
+                        const storageKey = getPositionsStorageKey();
                         const savedData = localStorage.getItem(storageKey);
                         
                         if (savedData) {
@@ -1300,7 +2179,7 @@ export class ImportMapPanel {
                      * Clear saved positions from localStorage for the current file.
                      */
                     function clearSavedPositions() {
-                        const storageKey = 'importMap_positions_' + (currentFile || 'project');
+                        const storageKey = getPositionsStorageKey();
                         localStorage.removeItem(storageKey);
                         console.log('🗑️ Cleared saved positions for:', currentFile || 'project');
                     }
@@ -1314,6 +2193,18 @@ export class ImportMapPanel {
                         }, 100); // 100ms debounce
                     }
 
+                    // Messages from the extension: live updates when files change on disk, export and image requests
+                    window.addEventListener('message', event => {
+                        const message = event.data;
+                        if (message.command === 'updateGraph') {
+                            applyGraphUpdate(message);
+                        } else if (message.command === 'requestExport') {
+                            exportGraph();
+                        } else if (message.command === 'renderImage') {
+                            renderImage(message.id, message.format);
+                        }
+                    });
+
                     // Initialize
                     window.addEventListener('resize', handleResize);
                     // Save positions when page unloads
@@ -1335,23 +2226,24 @@ export class ImportMapPanel {
      * @returns Object containing arrays of nodes and edges for visualization
      */
     private convertToVisualizationData(importMap: ImportMap, currentFile?: string, isProjectMode = false): { nodes: VisualizationNode[], edges: VisualizationEdge[] } {
-        const nodes: VisualizationNode[] = [];
-        const edges: VisualizationEdge[] = [];
-        const nodeIds = new Set<string>();
+        const nodes = new Map<string, VisualizationNode>();
+        const edges = new Map<string, VisualizationEdge>();
 
         // Step 1: Convert only relevant files to nodes
         for (const [filePath, fileNode] of importMap.files) {
             const nodeId = filePath;
             const isCurrentFile = currentFile === filePath;
             
-            nodes.push({
+            nodes.set(nodeId, {
                 id: nodeId,
                 label: path.basename(fileNode.name),
                 path: filePath,
                 isNodeModule: false,
-                isCurrentFile
+                isCurrentFile,
+                isBarrel: fileNode.imports.some(imp => imp.type === 're-export'),
+                root: fileNode.workspaceRoot,
+                assetType: fileNode.assetType
             });
-            nodeIds.add(nodeId);
         }
 
         // Step 2: Add edges (files) and node modules (ONLY from current file)
@@ -1362,34 +2254,194 @@ export class ImportMapPanel {
             for (const importInfo of fileNode.imports) {
                 if (importInfo.isNodeModule && (isProjectMode || isCurrentFile)) {
                     // Show node modules: in project mode (all), in current file mode (only current file)
-                    const moduleId = `node_module:${importInfo.source}`;
-                    if (!nodeIds.has(moduleId)) {
-                        nodes.push({
+                    const packageName = importInfo.packageName || importInfo.source;
+                    const moduleId = `node_module:${packageName}`;
+                    let packageNode = nodes.get(moduleId);
+                    if (!packageNode) {
+                        packageNode = {
                             id: moduleId,
+                            label: packageName,
+                            path: packageName,
+                            isNodeModule: true,
+                            dependencyType: importInfo.dependencyType,
+                            subpaths: []
+                        };
+                        nodes.set(moduleId, packageNode);
+                    }
+                    this.addEdge(edges, moduleId, nodeId, importInfo);
+
+                    // One node per specifier, shown when the package is expanded
+                    const subpathId = `node_module_path:${importInfo.source}`;
+                    if (!nodes.has(subpathId)) {
+                        packageNode.subpaths!.push(importInfo.source);
+                        nodes.set(subpathId, {
+                            id: subpathId,
                             label: importInfo.source,
                             path: importInfo.source,
-                            isNodeModule: true
+                            isNodeModule: true,
+                            dependencyType: importInfo.dependencyType,
+                            parentPackage: moduleId
                         });
-                        nodeIds.add(moduleId);
                     }
-
-                    edges.push({
-                        from: moduleId,
-                        to: nodeId,
-                        type: importInfo.type
-                    });
+                    this.addEdge(edges, subpathId, nodeId, importInfo, { subpathOf: moduleId });
                 } else if (importInfo.resolvedPath && importMap.files.has(importInfo.resolvedPath)) {
                     // Always show edges between project files
-                    edges.push({
-                        from: importInfo.resolvedPath,
-                        to: nodeId,
-                        type: importInfo.type
-                    });
+                    const barrelTargets = importInfo.barrelTargets || [];
+                    const fullyTraced = barrelTargets.length > 0 &&
+                        barrelTargets.length === (importInfo.importedNames || []).length;
+                    this.addEdge(edges, importInfo.resolvedPath, nodeId, importInfo, { collapsible: fullyTraced });
+
+                    // Direct edges to the defining files, shown when barrels are collapsed
+                    for (const target of barrelTargets) {
+                        if (!nodes.has(target.resolvedPath)) {
+                            nodes.set(target.resolvedPath, {
+                                id: target.resolvedPath,
+                                label: path.basename(target.resolvedPath),
+                                path: target.resolvedPath,
+                                isNodeModule: false,
+                                collapsedOnly: true
+                            });
+                        }
+                        this.addEdge(edges, target.resolvedPath, nodeId, { ...importInfo, importedNames: [target.name] }, {
+                            viaBarrel: importInfo.resolvedPath
+                        });
+                    }
+                }
+            }
+        }
+
+        return { nodes: Array.from(nodes.values()), edges: Array.from(edges.values()) };
+    }
+
+    /**
+     * Aggregates file-level imports into dependencies between workspace packages.
+     * The package containing the current file is treated as the current node.
+     * 
+     * @param importMap - The raw import analysis data
+     * @param currentFile - Path of the currently focused file
+     * @returns Object containing arrays of package nodes and edges
+     */
+    private convertToPackageData(importMap: ImportMap, currentFile?: string): { nodes: VisualizationNode[], edges: VisualizationEdge[] } {
+        const nodes: VisualizationNode[] = [];
+        const edges = new Map<string, VisualizationEdge>();
+        const packages = importMap.packages || [];
+        if (packages.length === 0) {
+            return { nodes, edges: [] };
+        }
+
+        const currentPackage = currentFile ? importMap.files.get(currentFile)?.packageName : undefined;
+        for (const workspacePackage of packages) {
+            nodes.push({
+                id: `package:${workspacePackage.name}`,
+                label: workspacePackage.name,
+                path: path.join(workspacePackage.dir, 'package.json'),
+                isNodeModule: false,
+                isPackage: true,
+                isCurrentFile: workspacePackage.name === currentPackage
+            });
+        }
+
+        for (const fileNode of importMap.files.values()) {
+            if (!fileNode.packageName) {
+                continue;
+            }
+            for (const importInfo of fileNode.imports) {
+                const target = importInfo.resolvedPath ? importMap.files.get(importInfo.resolvedPath) : undefined;
+                if (!target || !target.packageName || target.packageName === fileNode.packageName) {
+                    continue;
                 }
+                this.addEdge(edges, `package:${target.packageName}`, `package:${fileNode.packageName}`, importInfo);
             }
         }
 
-        return { nodes, edges };
+        return { nodes, edges: Array.from(edges.values()) };
+    }
+
+    /**
+     * Adds an edge for an import, merging imported names into an existing edge
+     * when the same file imports the same target more than once.
+     *
+     * @param edges - Edges to add to, by edge key
+     * @param from - Id of the imported node
+     * @param to - Id of the importing node
+     * @param importInfo - The import the edge represents
+     * @param barrelInfo - Barrel collapsing and package expansion flags for the edge
+     */
+    private addEdge(
+        edges: Map<string, VisualizationEdge>,
+        from: string,
+        to: string,
+        importInfo: ImportInfo,
+        barrelInfo: Pick<VisualizationEdge, 'viaBarrel' | 'collapsible' | 'subpathOf'> = {}
+    ) {
+        const key = ImportMapPanel.getEdgeKey({ from, to, viaBarrel: barrelInfo.viaBarrel });
+        const existing = edges.get(key);
+        if (!existing) {
+            edges.set(key, {
+                from,
+                to,
+                type: importInfo.type,
+                kinds: [importInfo.type],
+                importedNames: importInfo.importedNames ? [...importInfo.importedNames] : undefined,
+                ...barrelInfo
+            });
+            return;
+        }
+
+        // Only collapse the edge when every import it stands for goes through the barrel
+        existing.collapsible = !!existing.collapsible && !!barrelInfo.collapsible;
+
+        // Keep every kind, ordered by significance, and draw the edge as the most significant one
+        const kindOrder = Object.keys(ImportMapPanel.EDGE_STYLES) as ImportKind[];
+        const kinds = new Set([...(existing.kinds || [existing.type]), importInfo.type]);
+        existing.kinds = kindOrder.filter(kind => kinds.has(kind));
+        existing.type = existing.kinds[0];
+
+        if (importInfo.importedNames) {
+            const names = new Set([...(existing.importedNames || []), ...importInfo.importedNames]);
+            existing.importedNames = Array.from(names);
+        }
+    }
+
+    /**
+     * Builds the legend rows for edge kinds: a sample of the line style and a checkbox to show or hide the kind.
+     * 
+     * @returns HTML for the edge section of the legend
+     */
+    private getEdgeLegendHtml(): string {
+        return (Object.keys(ImportMapPanel.EDGE_STYLES) as ImportKind[]).map(kind => {
+            const style = ImportMapPanel.EDGE_STYLES[kind];
+            return `
+                        <label class="legend-item">
+                            <input type="checkbox" class="edge-kind-toggle" data-kind="${kind}" checked>
+                            <svg class="legend-line" width="24" height="8">
+                                <line x1="0" y1="4" x2="24" y2="4" stroke="${style.color}" stroke-width="2" stroke-dasharray="${style.dash.join(' ')}" />
+                            </svg>
+                            <span>${style.label}</span>
+                        </label>`;
+        }).join('');
+    }
+
+    /**
+     * Generates the importer and dependency depth selects shown for a current-file map.
+     * Option values are level counts, with 0 standing for unlimited.
+     * 
+     * @param depth - Depth the map was analyzed with
+     * @returns HTML of the depth controls
+     */
+    private getDepthControlsHtml(depth: AnalysisDepth): string {
+        const options = (current: number) => {
+            const choices = DEPTH_CHOICES.includes(current) ? DEPTH_CHOICES : [...DEPTH_CHOICES, current].sort((a, b) => a - b);
+            return choices.map(levels => {
+                const value = levels === Infinity ? 0 : levels;
+                return `<option value="${value}"${levels === current ? ' selected' : ''}>${formatDepth(levels)}</option>`;
+            }).join('');
+        };
+        return `
+                        <div class="depth-controls">
+                            <label>Importers <select id="importerDepthSelect" class="depth-select">${options(depth.importers)}</select></label>
+                            <label>Dependencies <select id="dependencyDepthSelect" class="depth-select">${options(depth.dependencies)}</select></label>
+                        </div>`;
     }
 
     /**
@@ -1413,6 +2465,8 @@ export class ImportMapPanel {
     public dispose() {
         ImportMapPanel.currentPanel = undefined;
         this._panel.dispose();
+        this._pendingImages.forEach(request => request.reject(new Error('The import map panel was closed')));
+        this._pendingImages.clear();
 
         while (this._disposables.length) {
             const x = this._disposables.pop();
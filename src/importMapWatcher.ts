@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+import { FileChanges } from './types';
+
+/**
+ * ImportMapWatcher collects the files created, changed and deleted in the workspace
+ * (from a file system watcher and from saved documents) and reports them in batches once
+ * the changes settle, so a burst of saves or a branch switch leads to one update.
+ */
+export class ImportMapWatcher implements vscode.Disposable {
+    private static readonly DEBOUNCE_MS = 300;
+    /** Dependency and VCS folders change often and never hold analyzed files */
+    private static readonly SKIPPED_PATH = /[\\/](node_modules|\.git)([\\/]|$)/;
+
+    private readonly disposables: vscode.Disposable[] = [];
+    private changed = new Set<string>();
+    private deleted = new Set<string>();
+    private timer: NodeJS.Timeout | undefined;
+    private pending: Promise<void> = Promise.resolve();
+
+    /**
+     * @param onChange - Called with each batch of changes; batches are delivered one at a time
+     */
+    constructor(private readonly onChange: (changes: FileChanges) => Promise<void>) {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(uri => this.record(uri, false)),
+            watcher.onDidChange(uri => this.record(uri, false)),
+            watcher.onDidDelete(uri => this.record(uri, true)),
+            vscode.workspace.onDidSaveTextDocument(document => this.record(document.uri, false))
+        );
+    }
+
+    dispose(): void {
+        clearTimeout(this.timer);
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    /**
+     * Remember a touched path; the last event for a path wins (e.g. deleted, then created again)
+     */
+    private record(uri: vscode.Uri, isDeleted: boolean): void {
+        if (uri.scheme !== 'file' || ImportMapWatcher.SKIPPED_PATH.test(uri.fsPath)) {
+            return;
+        }
+        if (isDeleted) {
+            this.changed.delete(uri.fsPath);
+            this.deleted.add(uri.fsPath);
+        } else {
+            this.deleted.delete(uri.fsPath);
+            this.changed.add(uri.fsPath);
+        }
+
+        clearTimeout(this.timer);
+        this.timer = setTimeout(() => this.flush(), ImportMapWatcher.DEBOUNCE_MS);
+    }
+
+    private flush(): void {
+        const changes: FileChanges = { changed: Array.from(this.changed), deleted: Array.from(this.deleted) };
+        this.changed.clear();
+        this.deleted.clear();
+
+        // Wait for the previous batch, so updates never run on the same map concurrently
+        this.pending = this.pending
+            .then(() => this.onChange(changes))
+            .catch(error => console.error('❌ Error updating import map:', error));
+    }
+}
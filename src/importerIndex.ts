@@ -0,0 +1,51 @@
+import { FileNode } from './types';
+
+/**
+ * ImporterIndex answers "which files import this file" for a whole project without parsing
+ * anything: it holds the analyzed files of the project and, for every resolved import target,
+ * the files importing it. Targets outside the scanned files (ignored files, assets) are indexed too.
+ */
+export class ImporterIndex {
+    private importers = new Map<string, Set<string>>();
+
+    /**
+     * @param files - Analyzed project files by path; patched in place by the analyzer as files change
+     */
+    constructor(readonly files: Map<string, FileNode>) {
+        this.rebuild();
+    }
+
+    /**
+     * Recompute the importers of every target after `files` was patched
+     */
+    rebuild(): void {
+        this.importers.clear();
+        for (const [filePath, fileNode] of this.files) {
+            for (const importInfo of fileNode.imports) {
+                if (importInfo.isNodeModule || !importInfo.resolvedPath) {
+                    continue;
+                }
+                if (!this.importers.has(importInfo.resolvedPath)) {
+                    this.importers.set(importInfo.resolvedPath, new Set());
+                }
+                this.importers.get(importInfo.resolvedPath)!.add(filePath);
+            }
+        }
+    }
+
+    /**
+     * Files importing a file, in scan order
+     *
+     * @param filePath - Absolute path of the imported file
+     */
+    getImporters(filePath: string): string[] {
+        return Array.from(this.importers.get(filePath) || []);
+    }
+
+    /**
+     * The analyzed node of a project file. It is shared with the index: copy it before changing it.
+     */
+    getFile(filePath: string): FileNode | undefined {
+        return this.files.get(filePath);
+    }
+}
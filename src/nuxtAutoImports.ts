@@ -0,0 +1,346 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ParsedModule } from './astImportParser';
+import { ImportInfo } from './types';
+
+/**
+ * Something Nuxt makes available without an import statement
+ */
+interface AutoImportEntry {
+    name: string;
+    filePath: string;
+    kind: 'component' | 'composable' | 'util' | 'layout';
+}
+
+/**
+ * Virtual module each kind of auto-import is attributed to
+ */
+const AUTO_IMPORT_SOURCES: Record<AutoImportEntry['kind'], string> = {
+    component: '#components',
+    composable: '#imports',
+    util: '#imports',
+    layout: '#layouts'
+};
+
+/**
+ * Modules Nuxt generates at build time. They have no file in the project, so imports of them
+ * are external, not unresolved.
+ */
+const VIRTUAL_MODULES = ['#app', '#imports', '#components', '#build', '#head', '#layouts', '#vue-router'];
+
+/**
+ * Identifiers in a file that may refer to auto-imports. They only depend on the file content,
+ * so they can be cached and looked up again when the registry changes.
+ */
+export interface AutoImportNames {
+    /** Template tag names in PascalCase, without the `Lazy` prefix */
+    components: string[];
+    /** Names of called functions */
+    functions: string[];
+    /** Layout names */
+    layouts: string[];
+}
+
+const SCRIPT_EXTENSIONS = ['.ts', '.js', '.mts', '.mjs', '.tsx', '.jsx'];
+const COMPONENT_EXTENSIONS = ['.vue', ...SCRIPT_EXTENSIONS];
+
+/**
+ * NuxtAutoImportRegistry collects what Nuxt auto-imports (components, composables, utils, layouts)
+ * following Nuxt's directory conventions, and finds where files use them implicitly:
+ * component tags in templates, composable/util calls, and layout names.
+ */
+export class NuxtAutoImportRegistry {
+    private components = new Map<string, AutoImportEntry>();
+    private functions = new Map<string, AutoImportEntry>();
+    private layouts = new Map<string, AutoImportEntry>();
+
+    private constructor(private readonly baseDir: string, private readonly parseFile: (filePath: string) => Promise<ParsedModule>) {}
+
+    /**
+     * Build the registry when the project is a Nuxt project.
+     *
+     * @param projectRoot - Project root directory
+     * @param srcDir - Nuxt srcDir relative to the project root
+     * @param parseFile - Parses a file, used to read the exports of composables and utils
+     * @returns The registry, or null for non-Nuxt projects
+     */
+    static async detect(projectRoot: string, srcDir: string, parseFile: (filePath: string) => Promise<ParsedModule>): Promise<NuxtAutoImportRegistry | null> {
+        const configFile = ['nuxt.config.ts', 'nuxt.config.js', 'nuxt.config.mjs']
+            .map(file => path.join(projectRoot, file))
+            .find(file => fs.existsSync(file));
+        if (!configFile && !NuxtAutoImportRegistry.hasNuxtDependency(projectRoot)) {
+            return null;
+        }
+
+        // Nuxt 4 moved the app into app/; fall back to it (or the root) when srcDir has none of the auto-import directories
+        const baseDir = [srcDir, 'app', '.']
+            .map(dir => path.join(projectRoot, dir))
+            .find(dir => ['components', 'composables', 'utils', 'layouts'].some(sub => fs.existsSync(path.join(dir, sub))));
+        if (!baseDir) {
+            return null;
+        }
+
+        // components: [{ path: '~/components', pathPrefix: false }] registers components by file name only
+        const configContent = configFile ? await fs.promises.readFile(configFile, 'utf-8') : '';
+        const pathPrefix = !/pathPrefix\s*:\s*false/.test(configContent);
+
+        const registry = new NuxtAutoImportRegistry(baseDir, parseFile);
+        await registry.registerComponents(pathPrefix);
+        await registry.registerFunctions('composables', 'composable');
+        await registry.registerFunctions('utils', 'util');
+        await registry.registerLayouts();
+        console.log(`🧩 Nuxt auto-imports: ${registry.components.size} components, ${registry.functions.size} composables/utils, ${registry.layouts.size} layouts`);
+        return registry;
+    }
+
+    /**
+     * The Nuxt virtual module a specifier imports (`#components` for `#components/AppHeader`), if any
+     */
+    static getVirtualModule(source: string): string | undefined {
+        return VIRTUAL_MODULES.find(module => source === module || source.startsWith(`${module}/`));
+    }
+
+    /**
+     * Collect the names in a file that could be auto-imports: component tags in the template,
+     * function calls, and layout names.
+     *
+     * @param content - Full file content
+     * @param filePath - Path of the file
+     */
+    static collectNames(content: string, filePath: string): AutoImportNames {
+        const components = new Set<string>();
+        const functions = new Set<string>();
+        const layouts = new Set<string>();
+
+        // <CommonEmptyData />, <common-empty-data>, <LazyCommonEmptyData>
+        const template = filePath.endsWith('.vue') ? NuxtAutoImportRegistry.extractTemplate(content) : '';
+        const tagPattern = /<([A-Z][\w]*|[a-z][\w]*(?:-[\w]+)+)/g;
+        let match;
+        while ((match = tagPattern.exec(template)) !== null) {
+            components.add(NuxtAutoImportRegistry.toPascalCase(match[1]).replace(/^Lazy(?=[A-Z])/, ''));
+        }
+
+        // useFoo(), formatDate() in scripts and template expressions, but not `function useFoo(` declarations
+        const callPattern = /(?<!function\s+)(?<![\w$.])([A-Za-z_$][\w$]*)\s*(?:<[^<>()]*>)?\s*\(/g;
+        while ((match = callPattern.exec(content)) !== null) {
+            functions.add(match[1]);
+        }
+
+        // definePageMeta({ layout: 'admin' }), setPageLayout('admin'), <NuxtLayout name="admin">
+        const layoutPattern = /\blayout\s*:\s*['"`]([\w-]+)['"`]|setPageLayout\s*\(\s*['"`]([\w-]+)['"`]|<NuxtLayout\b([^>]*)>/g;
+        while ((match = layoutPattern.exec(content)) !== null) {
+            let name = match[1] || match[2];
+            if (match[3] !== undefined) {
+                const nameMatch = match[3].match(/\bname\s*=\s*['"]([\w-]+)['"]/);
+                name = nameMatch ? nameMatch[1] : 'default';
+            }
+            layouts.add(name);
+        }
+
+        return { components: Array.from(components), functions: Array.from(functions), layouts: Array.from(layouts) };
+    }
+
+    /**
+     * Find the auto-imported components, composables, utils and layouts a file uses.
+     *
+     * @param names - Candidate names collected from the file with collectNames
+     * @param filePath - Path of the file
+     * @param explicitImports - Imports already found in the file; names imported explicitly are not auto-imported
+     * @returns One implicit import per defining file and kind
+     */
+    findUsages(names: AutoImportNames, filePath: string, explicitImports: ImportInfo[]): ImportInfo[] {
+        const explicitNames = new Set(explicitImports.flatMap(imp => imp.importedNames || []));
+        const used = new Map<string, { entry: AutoImportEntry; names: Set<string> }>();
+        const use = (entry: AutoImportEntry | undefined, name: string) => {
+            if (!entry || entry.filePath === filePath || explicitNames.has(name)) {
+                return;
+            }
+            const key = `${entry.kind}:${entry.filePath}`;
+            if (!used.has(key)) {
+                used.set(key, { entry, names: new Set() });
+            }
+            used.get(key)!.names.add(name);
+        };
+
+        names.components.forEach(name => use(this.components.get(name), name));
+        names.functions.forEach(name => use(this.functions.get(name), name));
+        names.layouts.forEach(name => use(this.layouts.get(name), name));
+
+        return Array.from(used.values()).map(({ entry, names }) => ({
+            source: AUTO_IMPORT_SOURCES[entry.kind],
+            type: 'implicit' as const,
+            isNodeModule: false,
+            resolvedPath: entry.filePath,
+            importedNames: Array.from(names)
+        }));
+    }
+
+    /**
+     * Register components/ recursively; names are the directory path prefixed to the file name,
+     * without repeating segments the file name already starts with (components/base/BaseButton.vue -> BaseButton)
+     */
+    private async registerComponents(pathPrefix: boolean): Promise<void> {
+        const componentsDir = path.join(this.baseDir, 'components');
+        for (const filePath of await this.listFiles(componentsDir, true, COMPONENT_EXTENSIONS)) {
+            const relative = path.relative(componentsDir, filePath);
+            const directories = path.dirname(relative) === '.' ? [] : path.dirname(relative).split(path.sep);
+            let fileName = path.basename(relative, path.extname(relative)).replace(/\.(client|server)$/, '');
+
+            // components/card/index.vue -> Card
+            if (fileName === 'index' && directories.length > 0) {
+                fileName = directories.pop()!;
+            }
+
+            const fileParts = NuxtAutoImportRegistry.splitByCase(fileName);
+            const prefixParts = pathPrefix ? directories.flatMap(dir => NuxtAutoImportRegistry.splitByCase(dir)) : [];
+            const name = NuxtAutoImportRegistry.toPascalCase([...this.removeRepeatedPrefix(prefixParts, fileParts), ...fileParts].join('-'));
+            if (!this.components.has(name)) {
+                this.components.set(name, { name, filePath, kind: 'component' });
+            }
+        }
+    }
+
+    /**
+     * Register the exports of top-level files (and `<dir>/index` files) in composables/ or utils/.
+     * A default export is named after the file, in camelCase.
+     */
+    private async registerFunctions(directory: string, kind: 'composable' | 'util'): Promise<void> {
+        const dir = path.join(this.baseDir, directory);
+        const candidates = await this.listFiles(dir, false, SCRIPT_EXTENSIONS);
+        for (const sub of await this.listSubdirectories(dir)) {
+            const indexFiles = await this.listFiles(path.join(dir, sub), false, SCRIPT_EXTENSIONS);
+            candidates.push(...indexFiles.filter(file => path.basename(file, path.extname(file)) === 'index'));
+        }
+
+        // Parse concurrently, then register in listing order so the first file declaring a name keeps it
+        const parsedFiles = await Promise.all(candidates.map(filePath => this.parseFile(filePath).catch(() => undefined)));
+
+        candidates.forEach((filePath, index) => {
+            const parsed = parsedFiles[index];
+            if (!parsed) {
+                return;
+            }
+
+            const names = [
+                ...parsed.exports,
+                ...parsed.imports.filter(imp => imp.type === 're-export').flatMap(imp => imp.exportedNames || [])
+            ];
+            for (const exported of names) {
+                if (exported === '*') {
+                    continue;
+                }
+                const baseName = path.basename(filePath, path.extname(filePath));
+                const name = exported === 'default'
+                    ? this.toCamelCase(baseName === 'index' ? path.basename(path.dirname(filePath)) : baseName)
+                    : exported;
+                if (!this.functions.has(name)) {
+                    this.functions.set(name, { name, filePath, kind });
+                }
+            }
+        });
+    }
+
+    /**
+     * Register layouts/ recursively; names are the kebab-cased path (layouts/admin/panel.vue -> admin-panel)
+     */
+    private async registerLayouts(): Promise<void> {
+        const layoutsDir = path.join(this.baseDir, 'layouts');
+        for (const filePath of await this.listFiles(layoutsDir, true, ['.vue'])) {
+            const relative = path.relative(layoutsDir, filePath).replace(/\.vue$/, '');
+            const name = NuxtAutoImportRegistry.splitByCase(relative).map(part => part.toLowerCase()).join('-');
+            this.layouts.set(name, { name, filePath, kind: 'layout' });
+        }
+    }
+
+    /**
+     * Drop the trailing directory parts that the file name repeats, like Nuxt's component name resolution
+     */
+    private removeRepeatedPrefix(prefixParts: string[], fileParts: string[]): string[] {
+        const fileContent = fileParts.map(part => part.toLowerCase());
+        for (let index = 0; index < prefixParts.length; index++) {
+            const suffix = prefixParts.slice(index).map(part => part.toLowerCase());
+            if (suffix.every((part, i) => fileContent[i] === part)) {
+                return prefixParts.slice(0, index);
+            }
+        }
+        return prefixParts;
+    }
+
+    /**
+     * The outermost `<template>` block of a Vue SFC
+     */
+    private static extractTemplate(content: string): string {
+        const start = content.search(/<template[\s>]/);
+        const end = content.lastIndexOf('</template>');
+        return start !== -1 && end > start ? content.substring(start, end) : '';
+    }
+
+    /**
+     * Split a name into words at separators and case changes: `baseButton-icon` -> [base, Button, icon]
+     */
+    private static splitByCase(value: string): string[] {
+        return value
+            .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+            .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+            .split(/[\s\-_./\\]+/)
+            .filter(Boolean);
+    }
+
+    private static toPascalCase(value: string): string {
+        return NuxtAutoImportRegistry.splitByCase(value).map(part => part[0].toUpperCase() + part.substring(1)).join('');
+    }
+
+    private toCamelCase(value: string): string {
+        const pascal = NuxtAutoImportRegistry.toPascalCase(value);
+        return pascal ? pascal[0].toLowerCase() + pascal.substring(1) : pascal;
+    }
+
+    private async listFiles(dir: string, recursive: boolean, extensions: string[]): Promise<string[]> {
+        const results: string[] = [];
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(dir, { withFileTypes: true });
+        } catch (error) {
+            return results;
+        }
+
+        for (const entry of entries) {
+            const fullPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                if (recursive && entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+                    results.push(...await this.listFiles(fullPath, recursive, extensions));
+                }
+            } else if (extensions.includes(path.extname(entry.name)) && !entry.name.endsWith('.d.ts')) {
+                results.push(fullPath);
+            }
+        }
+        return results;
+    }
+
+    private async listSubdirectories(dir: string): Promise<string[]> {
+        try {
+            return (await fs.promises.readdir(dir, { withFileTypes: true }))
+                .filter(entry => entry.isDirectory() && entry.name !== 'node_modules')
+                .map(entry => entry.name);
+        } catch (error) {
+            return [];
+        }
+    }
+
+    /**
+     * Whether package.json depends on Nuxt (for projects without a nuxt.config file)
+     */
+    private static hasNuxtDependency(projectRoot: string): boolean {
+        const packageJsonPath = path.join(projectRoot, 'package.json');
+        if (!fs.existsSync(packageJsonPath)) {
+            return false;
+        }
+        try {
+            const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+            const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
+            return !!(dependencies.nuxt || dependencies.nuxt3);
+        } catch (error) {
+            return false;
+        }
+    }
+}
@@ -0,0 +1,247 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Conditions that can be toggled for conditional `imports`/`exports` maps
+ */
+export const RESOLUTION_CONDITIONS = ['import', 'require', 'node', 'browser', 'types'];
+
+interface PackageJsonInfo {
+    dir: string;
+    name?: string;
+    imports?: unknown;
+    exports?: unknown;
+}
+
+/**
+ * PackageJsonResolver resolves Node subpath imports (`#internal/db`) through the `imports` field
+ * of the nearest package.json, and self-references (`my-package/sub`) through its `exports` field,
+ * following the Node.js conditional exports algorithm.
+ */
+export class PackageJsonResolver {
+    private packageCache = new Map<string, PackageJsonInfo | null>();
+    private directoryCache = new Map<string, string | null>();
+
+    /**
+     * @param conditions - Environment conditions enabled in addition to `import`/`require` and `default`
+     */
+    constructor(private readonly conditions: string[] = ['node']) {}
+
+    /**
+     * Resolve a `#` subpath import through the `imports` field of the nearest package.json.
+     *
+     * @param source - The import specifier, e.g. `#internal/db`
+     * @param fromDir - Directory of the importing file
+     * @param importType - Whether the specifier is loaded with `require` (enables the `require` condition instead of `import`)
+     * @param resolveFile - Callback that turns a candidate path into an existing file
+     */
+    resolveImports(
+        source: string,
+        fromDir: string,
+        importType: string,
+        resolveFile: (candidate: string) => string | undefined
+    ): string | undefined {
+        const packageJson = this.findPackageJson(fromDir);
+        if (!packageJson || !this.isRecord(packageJson.imports)) {
+            return undefined;
+        }
+
+        const target = this.matchSubpath(source, packageJson.imports, this.getConditions(importType));
+        return target ? this.resolveTarget(target, packageJson.dir, resolveFile) : undefined;
+    }
+
+    /**
+     * Resolve a package referencing itself by name through the `exports` field of the nearest package.json.
+     *
+     * @param source - The import specifier, e.g. `@acme/api/client`
+     * @param fromDir - Directory of the importing file
+     * @param importType - Whether the specifier is loaded with `require`
+     * @param resolveFile - Callback that turns a candidate path into an existing file
+     */
+    resolveSelfReference(
+        source: string,
+        fromDir: string,
+        importType: string,
+        resolveFile: (candidate: string) => string | undefined
+    ): string | undefined {
+        const packageJson = this.findPackageJson(fromDir);
+        if (!packageJson || !packageJson.name || packageJson.exports === undefined) {
+            return undefined;
+        }
+        if (source !== packageJson.name && !source.startsWith(`${packageJson.name}/`)) {
+            return undefined;
+        }
+
+        return this.resolvePackageExports(packageJson, source.substring(packageJson.name.length), importType, resolveFile);
+    }
+
+    /**
+     * Resolve a subpath (`''` for the package root, `'/sub'` otherwise) of a package through its `exports` field.
+     *
+     * @param packageDir - Directory containing the package.json
+     * @param subpath - Part of the specifier after the package name
+     * @param importType - Whether the specifier is loaded with `require`
+     * @param resolveFile - Callback that turns a candidate path into an existing file
+     */
+    resolveExports(
+        packageDir: string,
+        subpath: string,
+        importType: string,
+        resolveFile: (candidate: string) => string | undefined
+    ): string | undefined {
+        const packageJson = this.readPackageJson(path.join(packageDir, 'package.json'));
+        if (!packageJson || packageJson.exports === undefined) {
+            return undefined;
+        }
+        return this.resolvePackageExports(packageJson, subpath, importType, resolveFile);
+    }
+
+    private resolvePackageExports(
+        packageJson: PackageJsonInfo,
+        subpath: string,
+        importType: string,
+        resolveFile: (candidate: string) => string | undefined
+    ): string | undefined {
+        // A string, array or conditions object is shorthand for { ".": ... }
+        const exports = packageJson.exports;
+        const exportsMap = this.isRecord(exports) && Object.keys(exports).some(key => key.startsWith('.'))
+            ? exports
+            : { '.': exports };
+
+        const target = this.matchSubpath(`.${subpath}`, exportsMap, this.getConditions(importType));
+        return target ? this.resolveTarget(target, packageJson.dir, resolveFile) : undefined;
+    }
+
+    /**
+     * Active conditions for one import: the enabled environment conditions,
+     * `import` or `require` depending on how the module is loaded, and `default`
+     */
+    private getConditions(importType: string): Set<string> {
+        return new Set([...this.conditions, importType === 'require' ? 'require' : 'import', 'default']);
+    }
+
+    /**
+     * Match a specifier against the keys of an `imports`/`exports` map, supporting `*` patterns,
+     * and return the target path with the pattern substituted
+     */
+    private matchSubpath(specifier: string, map: Record<string, unknown>, conditions: Set<string>): string | undefined {
+        if (Object.prototype.hasOwnProperty.call(map, specifier) && !specifier.includes('*')) {
+            return this.resolveConditional(map[specifier], conditions, '');
+        }
+
+        // Node picks the pattern with the longest prefix before the '*'
+        let bestKey: string | undefined;
+        let bestWildcard = '';
+        for (const key of Object.keys(map)) {
+            const starIndex = key.indexOf('*');
+            if (starIndex === -1) {
+                continue;
+            }
+            const prefix = key.substring(0, starIndex);
+            const suffix = key.substring(starIndex + 1);
+            if (specifier.startsWith(prefix) && specifier.endsWith(suffix) &&
+                specifier.length >= key.length && (!bestKey || prefix.length > bestKey.indexOf('*'))) {
+                bestKey = key;
+                bestWildcard = specifier.substring(prefix.length, specifier.length - suffix.length);
+            }
+        }
+
+        return bestKey ? this.resolveConditional(map[bestKey], conditions, bestWildcard) : undefined;
+    }
+
+    /**
+     * Walk a target value (string, array or nested conditions object) and return the first applicable path
+     */
+    private resolveConditional(target: unknown, conditions: Set<string>, wildcard: string): string | undefined {
+        if (typeof target === 'string') {
+            return target.replace(/\*/g, wildcard);
+        }
+        if (Array.isArray(target)) {
+            for (const item of target) {
+                const resolved = this.resolveConditional(item, conditions, wildcard);
+                if (resolved) {
+                    return resolved;
+                }
+            }
+            return undefined;
+        }
+        if (target && typeof target === 'object') {
+            // Condition keys are tried in the order they are declared
+            for (const [condition, value] of Object.entries(target)) {
+                if (conditions.has(condition)) {
+                    const resolved = this.resolveConditional(value, conditions, wildcard);
+                    if (resolved) {
+                        return resolved;
+                    }
+                }
+            }
+        }
+        // null targets explicitly exclude a subpath
+        return undefined;
+    }
+
+    /**
+     * Turn a package-relative target into a file; bare targets point at other packages and are not resolved here
+     */
+    private resolveTarget(target: string, packageDir: string, resolveFile: (candidate: string) => string | undefined): string | undefined {
+        if (!target.startsWith('./')) {
+            return undefined;
+        }
+        return resolveFile(path.resolve(packageDir, target));
+    }
+
+    /**
+     * Find the nearest package.json walking up from a directory
+     */
+    private findPackageJson(dir: string): PackageJsonInfo | null {
+        const cached = this.directoryCache.get(dir);
+        if (cached !== undefined) {
+            return cached ? this.readPackageJson(cached) : null;
+        }
+
+        const packageJsonPath = path.join(dir, 'package.json');
+        let found: string | null = null;
+        if (fs.existsSync(packageJsonPath)) {
+            found = packageJsonPath;
+        } else {
+            const parent = path.dirname(dir);
+            if (parent !== dir) {
+                const parentPackage = this.findPackageJson(parent);
+                found = parentPackage ? path.join(parentPackage.dir, 'package.json') : null;
+            }
+        }
+
+        this.directoryCache.set(dir, found);
+        return found ? this.readPackageJson(found) : null;
+    }
+
+    private readPackageJson(packageJsonPath: string): PackageJsonInfo | null {
+        if (this.packageCache.has(packageJsonPath)) {
+            return this.packageCache.get(packageJsonPath)!;
+        }
+
+        let info: PackageJsonInfo | null = null;
+        try {
+            const packageJson: unknown = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+            const fields = this.isRecord(packageJson) ? packageJson : {};
+            info = {
+                dir: path.dirname(packageJsonPath),
+                name: typeof fields.name === 'string' ? fields.name : undefined,
+                imports: fields.imports,
+                exports: fields.exports
+            };
+        } catch (error) {
+            console.log(`⚠️  Could not parse ${packageJsonPath}:`, error);
+        }
+
+        this.packageCache.set(packageJsonPath, info);
+        return info;
+    }
+
+    /**
+     * Whether a parsed JSON value is an object (not null or an array)
+     */
+    private isRecord(value: unknown): value is Record<string, unknown> {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+}
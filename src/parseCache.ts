@@ -0,0 +1,269 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { ParsedImport } from './astImportParser';
+import { AssetReference } from './assetReferenceParser';
+import { AutoImportNames } from './nuxtAutoImports';
+
+/**
+ * What parsing a file yields, before any specifier is resolved. It only depends on the
+ * file content, so it stays valid when other files, configs or settings change.
+ */
+export interface ParsedFile {
+    imports: ParsedImport[];
+    exports: string[];
+    /** Stylesheet references and asset URLs (stylesheets and component markup) */
+    assetReferences: AssetReference[];
+    /** Candidate Nuxt auto-import names; only collected in Nuxt projects */
+    autoImportNames?: AutoImportNames;
+}
+
+interface CacheEntry {
+    /** Modification time the entry was verified against; 0 forces a hash check */
+    mtimeMs: number;
+    size: number;
+    hash: string;
+    parsed: ParsedFile;
+}
+
+interface CacheContent {
+    version: string;
+    entries: Record<string, CacheEntry>;
+}
+
+/**
+ * Whether a parsed JSON value is an object (not null or an array)
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): boolean {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Whether a saved entry has the shape the analysis reads; specifiers need a source and a kind
+ */
+function isCacheEntry(entry: unknown): boolean {
+    if (!isRecord(entry) || typeof entry.mtimeMs !== 'number' || typeof entry.size !== 'number' || typeof entry.hash !== 'string') {
+        return false;
+    }
+    const parsed = entry.parsed;
+    if (!isRecord(parsed) || !isStringArray(parsed.exports) || !Array.isArray(parsed.imports) || !Array.isArray(parsed.assetReferences)) {
+        return false;
+    }
+    const isSpecifier = (item: unknown) => isRecord(item) && typeof item.source === 'string' && typeof item.type === 'string';
+    if (!parsed.imports.every(isSpecifier) || !parsed.assetReferences.every(isSpecifier)) {
+        return false;
+    }
+    const names = parsed.autoImportNames;
+    return names === undefined ||
+        (isRecord(names) && isStringArray(names.components) && isStringArray(names.functions) && isStringArray(names.layouts));
+}
+
+/**
+ * ParseCache keeps the parse result of every analyzed file, keyed by path and checked
+ * against the file's modification time and size, then its content hash. With a storage
+ * directory the cache is saved as JSON and reused after a restart, so only changed files
+ * are parsed again.
+ */
+export class ParseCache {
+    private static readonly FILE_NAME = 'parse-cache.json';
+    private static readonly FORMAT_VERSION = 1;
+    /** Files modified this recently may change again within the same mtime tick */
+    private static readonly RACY_INTERVAL_MS = 2000;
+    /** Saves requested within this time (e.g. one per file watcher batch) are written once */
+    private static readonly SAVE_DELAY_MS = 2000;
+
+    private entries = new Map<string, CacheEntry>();
+    private readonly version: string;
+    private dirty = false;
+    /** The last save; saves run one after another so two writes of the cache file never overlap */
+    private saving: Promise<void> = Promise.resolve();
+    private saveTimer: NodeJS.Timeout | undefined;
+    private reused = 0;
+    private parsed = 0;
+
+    /**
+     * @param storageDir - Directory the cache is saved in; in-memory only when omitted
+     * @param parserVersion - Version of the code producing the parse results (e.g. the extension version);
+     *   a saved cache from another version is discarded
+     */
+    constructor(private readonly storageDir?: string, parserVersion = '') {
+        this.version = `${ParseCache.FORMAT_VERSION}:${parserVersion}`;
+        this.load();
+    }
+
+    /**
+     * Number of cached files
+     */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * Return the cached parse result of a file, or parse it and cache the result
+     *
+     * @param filePath - Absolute path of the file
+     * @param parse - Parses the file content
+     * @param isUsable - Rejects cached results that lack something the current analysis needs
+     */
+    async get(filePath: string, parse: (content: string) => Promise<ParsedFile>, isUsable: (parsed: ParsedFile) => boolean = () => true): Promise<ParsedFile> {
+        const stats = await fs.promises.stat(filePath);
+        const entry = this.entries.get(filePath);
+        if (entry && entry.mtimeMs !== 0 && entry.mtimeMs === stats.mtimeMs && entry.size === stats.size && isUsable(entry.parsed)) {
+            this.reused++;
+            return entry.parsed;
+        }
+
+        const content = await fs.promises.readFile(filePath, 'utf-8');
+        const hash = crypto.createHash('sha1').update(content).digest('hex');
+        const mtimeMs = this.isRacy(stats.mtimeMs) ? 0 : stats.mtimeMs;
+
+        // Touched but unchanged (checkout, formatter without edits): keep the result, remember the new time
+        if (entry && entry.hash === hash && isUsable(entry.parsed)) {
+            if (entry.mtimeMs !== mtimeMs || entry.size !== stats.size) {
+                this.entries.set(filePath, { ...entry, mtimeMs, size: stats.size });
+                this.dirty = true;
+            }
+            this.reused++;
+            return entry.parsed;
+        }
+
+        const parsed = await parse(content);
+        this.entries.set(filePath, { mtimeMs, size: stats.size, hash, parsed });
+        this.dirty = true;
+        this.parsed++;
+        return parsed;
+    }
+
+    /**
+     * Forget the cached result of a file
+     */
+    delete(filePath: string): void {
+        if (this.entries.delete(filePath)) {
+            this.dirty = true;
+        }
+    }
+
+    /**
+     * Forget every cached result, in memory and on disk
+     */
+    clear(): void {
+        this.entries.clear();
+        this.dirty = false;
+        this.cancelSave();
+        const cacheFile = this.getCacheFile();
+        if (cacheFile) {
+            // After a save in progress, which would otherwise write the file again
+            this.saving = this.saving
+                .then(() => fs.promises.rm(cacheFile, { force: true }))
+                .catch(error => console.error('❌ Error deleting parse cache:', error));
+        }
+        console.log('🗑️  Parse cache cleared');
+    }
+
+    /**
+     * Drop the entries of files that no longer exist. This checks every cached file, so it runs
+     * once per full analysis; files deleted while watching are removed with delete().
+     */
+    async prune(): Promise<void> {
+        const filePaths = Array.from(this.entries.keys());
+        const exists = await Promise.all(filePaths.map(filePath => fs.promises.access(filePath).then(() => true, () => false)));
+        filePaths.forEach((filePath, index) => {
+            if (!exists[index]) {
+                this.delete(filePath);
+            }
+        });
+    }
+
+    /**
+     * Save the cache shortly when it changed; the write is delayed so that a series of updates is written once
+     */
+    save(): void {
+        console.log(`💾 Parse cache: ${this.reused} reused, ${this.parsed} parsed, ${this.entries.size} cached`);
+        this.reused = 0;
+        this.parsed = 0;
+
+        if (!this.getCacheFile() || !this.dirty || this.saveTimer) {
+            return;
+        }
+        this.saveTimer = setTimeout(() => this.flush(), ParseCache.SAVE_DELAY_MS);
+        // A pending save does not keep the process running
+        this.saveTimer.unref();
+    }
+
+    /**
+     * Write a pending save now, e.g. when the extension is deactivated
+     */
+    flush(): Promise<void> {
+        if (this.saveTimer) {
+            this.cancelSave();
+            this.saving = this.saving.then(() => this.write());
+        }
+        return this.saving;
+    }
+
+    private cancelSave(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+        }
+    }
+
+    private async write(): Promise<void> {
+        const cacheFile = this.getCacheFile();
+        if (!cacheFile || !this.dirty) {
+            return;
+        }
+
+        // Results cached while writing mark the cache dirty again
+        this.dirty = false;
+        try {
+            const content: CacheContent = { version: this.version, entries: Object.fromEntries(this.entries) };
+            await fs.promises.mkdir(path.dirname(cacheFile), { recursive: true });
+            await fs.promises.writeFile(cacheFile, JSON.stringify(content));
+        } catch (error) {
+            this.dirty = true;
+            console.error('❌ Error saving parse cache:', error);
+        }
+    }
+
+    private load(): void {
+        const cacheFile = this.getCacheFile();
+        if (!cacheFile || !fs.existsSync(cacheFile)) {
+            return;
+        }
+
+        try {
+            const content: unknown = JSON.parse(fs.readFileSync(cacheFile, 'utf-8'));
+            if (!isRecord(content) || content.version !== this.version) {
+                console.log(`🗑️  Discarding parse cache of version ${isRecord(content) ? content.version : 'unknown'}`);
+                return;
+            }
+            // A truncated or edited file is dropped as a whole; its files are parsed again
+            const entries = isRecord(content.entries) ? Object.entries(content.entries) : [];
+            if (!isRecord(content.entries) || !entries.every(([, entry]) => isCacheEntry(entry))) {
+                console.log('🗑️  Discarding malformed parse cache');
+                return;
+            }
+            this.entries = new Map(entries as [string, CacheEntry][]);
+            console.log(`📦 Loaded parse cache: ${this.entries.size} files`);
+        } catch (error) {
+            console.error('❌ Error loading parse cache:', error);
+        }
+    }
+
+    /**
+     * Whether a modification time is too recent to trust: the file could be written again
+     * within the same timestamp granularity without changing its time or size
+     */
+    private isRacy(mtimeMs: number): boolean {
+        return Date.now() - mtimeMs < ParseCache.RACY_INTERVAL_MS;
+    }
+
+    private getCacheFile(): string | undefined {
+        return this.storageDir ? path.join(this.storageDir, ParseCache.FILE_NAME) : undefined;
+    }
+}
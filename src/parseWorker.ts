@@ -0,0 +1,26 @@
+import { format } from 'util';
+import { parentPort } from 'worker_threads';
+import { FileParser } from './fileParser';
+import { ParseRequest, ParseResponse } from './parserPool';
+
+/**
+ * Entry point of a ParserPool worker thread: parses each file posted to it and posts the result back
+ */
+const fileParser = new FileParser();
+
+// A worker's stdout is the parent's, which the CLI keeps for the graph: hand log lines to the pool instead
+const logs: string[] = [];
+console.log = (...data: unknown[]) => {
+    logs.push(format(...data));
+};
+
+parentPort!.on('message', (request: ParseRequest) => {
+    let response: ParseResponse;
+    try {
+        response = { id: request.id, parsed: fileParser.parse(request.content, request.filePath, request.collectAutoImportNames) };
+    } catch (error) {
+        response = { id: request.id, error: error instanceof Error ? error.message : String(error) };
+    }
+    response.logs = logs.splice(0);
+    parentPort!.postMessage(response);
+});
@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { FileParser } from './fileParser';
+import { ParsedFile } from './parseCache';
+
+/**
+ * A file posted to a worker thread
+ */
+export interface ParseRequest {
+    id: number;
+    filePath: string;
+    content: string;
+    collectAutoImportNames: boolean;
+}
+
+/**
+ * A worker's answer to a request; `error` is set when parsing threw
+ */
+export interface ParseResponse {
+    id: number;
+    parsed?: ParsedFile;
+    error?: string;
+    /** Lines the worker logged while parsing, logged again by the pool in the calling thread */
+    logs?: string[];
+}
+
+interface ParseTask extends ParseRequest {
+    resolve: (parsed: ParsedFile) => void;
+    reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+    worker: Worker;
+    /** The request the worker is busy with */
+    task?: ParseTask;
+}
+
+/**
+ * ParserPool parses files on worker threads, so a large analysis neither blocks the extension
+ * host nor waits on a single core. Workers start with the first parse and stay alive until the
+ * pool is disposed; idle workers do not keep the process running. When the compiled worker
+ * script is missing or a worker fails, files are parsed in the calling thread instead. A worker
+ * that exits is replaced, until workers have exited MAX_RESTARTS times.
+ */
+export class ParserPool {
+    private static readonly WORKER_SCRIPT = path.join(__dirname, 'parseWorker.js');
+    private static readonly MAX_WORKERS = 4;
+    private static readonly MAX_RESTARTS = 3;
+
+    private readonly workers: PoolWorker[] = [];
+    private readonly queue: ParseTask[] = [];
+    private readonly fileParser = new FileParser();
+    private readonly size: number;
+    private useWorkers: boolean;
+    private nextId = 0;
+    private restarts = 0;
+
+    /**
+     * @param size - Number of worker threads; one less than the number of CPUs (1 to 4) by default, 0 parses in the calling thread
+     */
+    constructor(size?: number) {
+        this.size = size ?? Math.min(ParserPool.MAX_WORKERS, Math.max(1, os.cpus().length - 1));
+        this.useWorkers = this.size > 0 && fs.existsSync(ParserPool.WORKER_SCRIPT);
+    }
+
+    /**
+     * Parse a file's content on the next free worker
+     *
+     * @param content - File content
+     * @param filePath - Path of the file; its extension picks the parser
+     * @param collectAutoImportNames - Also collect candidate Nuxt auto-import names
+     */
+    parse(content: string, filePath: string, collectAutoImportNames: boolean): Promise<ParsedFile> {
+        return new Promise((resolve, reject) => {
+            const task: ParseTask = { id: this.nextId++, filePath, content, collectAutoImportNames, resolve, reject };
+            if (!this.useWorkers) {
+                this.parseInThread(task);
+                return;
+            }
+            this.queue.push(task);
+            this.dispatch();
+        });
+    }
+
+    /**
+     * Stop the worker threads; pending parses are rejected
+     */
+    dispose(): void {
+        const tasks = this.takePendingTasks();
+        tasks.forEach(task => task.reject(new Error('Parser pool disposed')));
+    }
+
+    private dispatch(): void {
+        while (this.queue.length > 0) {
+            const poolWorker = this.workers.find(candidate => !candidate.task) || this.startWorker();
+            if (!poolWorker) {
+                return;
+            }
+            const task = this.queue.shift()!;
+            poolWorker.task = task;
+            poolWorker.worker.ref();
+            const request: ParseRequest = {
+                id: task.id,
+                filePath: task.filePath,
+                content: task.content,
+                collectAutoImportNames: task.collectAutoImportNames
+            };
+            poolWorker.worker.postMessage(request);
+        }
+    }
+
+    private startWorker(): PoolWorker | undefined {
+        if (this.workers.length >= this.size) {
+            return undefined;
+        }
+
+        const poolWorker: PoolWorker = { worker: new Worker(ParserPool.WORKER_SCRIPT) };
+        poolWorker.worker.on('message', (response: ParseResponse) => {
+            const task = poolWorker.task;
+            poolWorker.task = undefined;
+            poolWorker.worker.unref();
+            (response.logs || []).forEach(line => console.log(line));
+            if (task && task.id === response.id) {
+                if (response.error !== undefined) {
+                    task.reject(new Error(response.error));
+                } else {
+                    task.resolve(response.parsed!);
+                }
+            }
+            this.dispatch();
+        });
+        poolWorker.worker.on('error', error => this.fallBackToThread(error));
+        poolWorker.worker.on('exit', exitCode => this.handleExit(poolWorker, exitCode));
+        this.workers.push(poolWorker);
+        console.log(`🧵 Started parser worker ${this.workers.length}/${this.size}`);
+        return poolWorker;
+    }
+
+    /**
+     * A worker stopped without being terminated by the pool (e.g. a dependency called `process.exit`):
+     * parse its file in the calling thread, so a file that brings workers down is not retried on them,
+     * and let dispatch() start a replacement
+     */
+    private handleExit(poolWorker: PoolWorker, exitCode: number): void {
+        const index = this.workers.indexOf(poolWorker);
+        if (index === -1) {
+            // Terminated by the pool, or already handled by the 'error' listener
+            return;
+        }
+        this.workers.splice(index, 1);
+        const task = poolWorker.task;
+        poolWorker.task = undefined;
+
+        if (this.restarts >= ParserPool.MAX_RESTARTS) {
+            this.fallBackToThread(new Error(`Parser worker exited with code ${exitCode}`));
+        } else {
+            this.restarts++;
+            console.error(`❌ Parser worker exited with code ${exitCode}, starting a new one`);
+        }
+        if (task) {
+            this.parseInThread(task);
+        }
+        this.dispatch();
+    }
+
+    /**
+     * A worker crashed (e.g. it could not load the parser): parse the pending files, and every later one, in the calling thread
+     */
+    private fallBackToThread(error: Error): void {
+        console.error('❌ Parser worker failed, parsing in the calling thread from now on:', error);
+        this.useWorkers = false;
+        this.takePendingTasks().forEach(task => this.parseInThread(task));
+    }
+
+    /**
+     * Terminate the workers and return the requests they were busy with, followed by the queued ones
+     */
+    private takePendingTasks(): ParseTask[] {
+        const tasks = [
+            ...this.workers.map(poolWorker => poolWorker.task).filter((task): task is ParseTask => !!task),
+            ...this.queue.splice(0)
+        ];
+        this.workers.splice(0).forEach(poolWorker => poolWorker.worker.terminate());
+        return tasks;
+    }
+
+    private parseInThread(task: ParseTask): void {
+        try {
+            task.resolve(this.fileParser.parse(task.content, task.filePath, task.collectAutoImportNames));
+        } catch (error) {
+            task.reject(error instanceof Error ? error : new Error(String(error)));
+        }
+    }
+}
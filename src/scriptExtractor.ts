@@ -0,0 +1,237 @@
+import * as path from 'path';
+
+/**
+ * Language of a script block, used to pick parser plugins
+ */
+export type ScriptLang = 'ts' | 'tsx' | 'js' | 'jsx';
+
+/**
+ * A piece of a file that contains JavaScript/TypeScript module code
+ */
+export interface ScriptBlock {
+    content: string;
+    lang: ScriptLang;
+    /** Zero-based line in the original file where the block content starts */
+    startLine: number;
+    /**
+     * Where the block comes from: Vue `<script setup>`, Svelte `module`/`instance` scripts,
+     * Astro `frontmatter`/`client` scripts, or MDX `esm` statements
+     */
+    context?: 'setup' | 'module' | 'instance' | 'frontmatter' | 'client' | 'esm';
+}
+
+/**
+ * Number of line breaks in a piece of text, i.e. the zero-based line of the position right after it
+ */
+export function countLines(text: string): number {
+    let count = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') {
+            count++;
+        }
+    }
+    return count;
+}
+
+/**
+ * ScriptExtractor pulls the module code out of component and document formats
+ * (Vue, Svelte, Astro, MDX) so that only real script code is scanned for imports.
+ * Plain script files are returned as a single block.
+ */
+export class ScriptExtractor {
+    /**
+     * Extract the script blocks of a file.
+     *
+     * @param content - Full file content
+     * @param filePath - Path of the file (its extension selects the extractor)
+     * @returns Script blocks in file order
+     */
+    extract(content: string, filePath: string): ScriptBlock[] {
+        switch (path.extname(filePath)) {
+            case '.vue':
+                return this.extractVue(content);
+            case '.svelte':
+                return this.extractSvelte(content);
+            case '.astro':
+                return this.extractAstro(content);
+            case '.mdx':
+                return this.extractMdx(content);
+            default:
+                return [{ content, lang: ScriptExtractor.getLangForFile(filePath), startLine: 0 }];
+        }
+    }
+
+    /**
+     * Language of a plain script file based on its extension
+     */
+    static getLangForFile(filePath: string): ScriptLang {
+        switch (path.extname(filePath)) {
+            case '.ts':
+            case '.mts':
+            case '.cts':
+                return 'ts';
+            case '.tsx':
+                return 'tsx';
+            case '.jsx':
+                return 'jsx';
+            default:
+                return 'js';
+        }
+    }
+
+    /**
+     * Vue SFC: `<script>` and `<script setup>`, each with its own `lang`
+     */
+    private extractVue(content: string): ScriptBlock[] {
+        return this.findScriptTags(content).map(tag => ({
+            content: tag.content,
+            lang: this.getLangFromAttributes(tag.attributes),
+            startLine: tag.startLine,
+            context: tag.attributes.has('setup') ? 'setup' : undefined
+        }));
+    }
+
+    /**
+     * Svelte: the instance script and the module script
+     * (`<script context="module">` in Svelte 3/4, `<script module>` in Svelte 5)
+     */
+    private extractSvelte(content: string): ScriptBlock[] {
+        return this.findScriptTags(content).map(tag => ({
+            content: tag.content,
+            lang: this.getLangFromAttributes(tag.attributes),
+            startLine: tag.startLine,
+            context: tag.attributes.get('context') === 'module' || tag.attributes.has('module') ? 'module' : 'instance'
+        }));
+    }
+
+    /**
+     * Astro: the `---` frontmatter (always TypeScript) and bundled client `<script>` tags.
+     * `is:inline` scripts are shipped as-is and cannot import project modules.
+     */
+    private extractAstro(content: string): ScriptBlock[] {
+        const blocks: ScriptBlock[] = [];
+        let markupStart = 0;
+
+        const frontmatterMatch = content.match(/^(\uFEFF?\s*---[^\S\r\n]*\r?\n)([\s\S]*?)\r?\n---[^\S\r\n]*(?:\r?\n|$)/);
+        if (frontmatterMatch) {
+            blocks.push({
+                content: frontmatterMatch[2],
+                lang: 'ts',
+                startLine: countLines(frontmatterMatch[1]),
+                context: 'frontmatter'
+            });
+            markupStart = frontmatterMatch[0].length;
+        }
+
+        for (const tag of this.findScriptTags(content, markupStart)) {
+            if (tag.attributes.has('is:inline') || tag.attributes.has('src')) {
+                continue;
+            }
+            blocks.push({ content: tag.content, lang: 'ts', startLine: tag.startLine, context: 'client' });
+        }
+
+        return blocks;
+    }
+
+    /**
+     * MDX: top-level `import`/`export` statements. An ESM block starts with `import` or `export`
+     * at the beginning of a line and runs until the next blank line; fenced code is skipped.
+     */
+    private extractMdx(content: string): ScriptBlock[] {
+        const blocks: ScriptBlock[] = [];
+        const lines = content.split('\n');
+        let fence: string | null = null;
+        let current: { lines: string[]; startLine: number } | null = null;
+
+        const flush = () => {
+            if (current) {
+                blocks.push({ content: current.lines.join('\n'), lang: 'jsx', startLine: current.startLine, context: 'esm' });
+                current = null;
+            }
+        };
+
+        lines.forEach((line, index) => {
+            const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+            if (fence) {
+                if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+                    fence = null;
+                }
+                return;
+            }
+            if (fenceMatch && !current) {
+                fence = fenceMatch[1];
+                return;
+            }
+
+            if (current) {
+                if (line.trim() === '') {
+                    flush();
+                } else {
+                    current.lines.push(line);
+                }
+                return;
+            }
+
+            const previousBlank = index === 0 || lines[index - 1].trim() === '';
+            if (previousBlank && /^(?:import|export)\b/.test(line)) {
+                current = { lines: [line], startLine: index };
+            }
+        });
+        flush();
+
+        return blocks;
+    }
+
+    /**
+     * Find `<script>` elements outside HTML comments, starting at an offset
+     */
+    private findScriptTags(content: string, from = 0): { attributes: Map<string, string>; content: string; startLine: number }[] {
+        // Blank out comments while keeping offsets, so commented-out scripts are ignored
+        const markup = content.replace(/<!--[\s\S]*?-->/g, comment => comment.replace(/[^\n]/g, ' '));
+        const scriptPattern = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+        scriptPattern.lastIndex = from;
+
+        const tags: { attributes: Map<string, string>; content: string; startLine: number }[] = [];
+        let match;
+        while ((match = scriptPattern.exec(markup)) !== null) {
+            const contentStart = match.index + match[0].indexOf('>') + 1;
+            tags.push({
+                attributes: this.parseAttributes(match[1]),
+                content: content.substring(contentStart, contentStart + match[2].length),
+                startLine: countLines(content.substring(0, contentStart))
+            });
+        }
+        return tags;
+    }
+
+    /**
+     * Parse tag attributes; boolean attributes map to an empty string
+     */
+    private parseAttributes(source: string): Map<string, string> {
+        const attributes = new Map<string, string>();
+        const attributePattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+        let match;
+        while ((match = attributePattern.exec(source)) !== null) {
+            attributes.set(match[1].toLowerCase(), match[2] ?? match[3] ?? match[4] ?? '');
+        }
+        return attributes;
+    }
+
+    /**
+     * Script language from `lang="ts"` or `type="text/typescript"`
+     */
+    private getLangFromAttributes(attributes: Map<string, string>): ScriptLang {
+        const lang = (attributes.get('lang') || attributes.get('type') || '').toLowerCase().replace(/^text\//, '');
+        switch (lang) {
+            case 'ts':
+            case 'typescript':
+                return 'ts';
+            case 'tsx':
+                return 'tsx';
+            case 'jsx':
+                return 'jsx';
+            default:
+                return 'js';
+        }
+    }
+}
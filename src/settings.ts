@@ -0,0 +1,78 @@
+import * as vscode from 'vscode';
+import { AnalyzerSettings } from './types';
+
+/**
+ * Configuration section of every setting contributed in package.json
+ */
+export const SETTINGS_SECTION = 'importMapExplorer';
+
+/**
+ * How the map is arranged when no saved node positions exist
+ */
+export type DefaultLayout = 'spiral' | 'hierarchical';
+
+/**
+ * Rendering options of the import map panel
+ */
+export interface PanelSettings {
+    showNodeModules: boolean;
+    defaultLayout: DefaultLayout;
+    nodesPerRow: number;
+}
+
+/**
+ * Read the analysis settings that apply to a workspace folder (folder settings override workspace and user settings)
+ *
+ * @param folderUri - Workspace folder being analyzed
+ */
+export function readAnalyzerSettings(folderUri: vscode.Uri): AnalyzerSettings {
+    const config = vscode.workspace.getConfiguration(SETTINGS_SECTION, folderUri);
+    return {
+        extensions: config.get<string[]>('extensions', []),
+        include: config.get<string[]>('include', []),
+        exclude: config.get<string[]>('exclude', []),
+        ignoredDirectories: config.get<string[]>('ignoredDirectories'),
+        buildDirectories: config.get<string[]>('buildDirectories'),
+        aliases: config.get<Record<string, string>>('aliases', {}),
+        depth: {
+            importers: toDepth(config.get<number>('importerDepth', 1)),
+            dependencies: toDepth(config.get<number>('dependencyDepth', 1))
+        }
+    };
+}
+
+/**
+ * Convert a depth setting or choice, where 0 stands for "unlimited", to a level count
+ */
+export function toDepth(levels: number | null | undefined): number {
+    return !levels || levels < 0 ? Infinity : Math.floor(levels);
+}
+
+/**
+ * Describe a depth for labels and logs, e.g. "2 levels" or "unlimited"
+ */
+export function formatDepth(levels: number): string {
+    if (levels === Infinity) {
+        return 'unlimited';
+    }
+    return levels === 1 ? '1 level' : `${levels} levels`;
+}
+
+/**
+ * Depth choices offered by the depth command and the panel
+ */
+export const DEPTH_CHOICES = [1, 2, 3, 5, Infinity];
+
+/**
+ * Read the rendering settings for the file or folder shown in the panel
+ *
+ * @param resource - The focused file, or undefined for workspace-wide settings
+ */
+export function readPanelSettings(resource?: vscode.Uri): PanelSettings {
+    const config = vscode.workspace.getConfiguration(SETTINGS_SECTION, resource);
+    return {
+        showNodeModules: config.get<boolean>('showNodeModules', false),
+        defaultLayout: config.get<DefaultLayout>('defaultLayout', 'spiral'),
+        nodesPerRow: Math.max(1, config.get<number>('layout.nodesPerRow', 8))
+    };
+}
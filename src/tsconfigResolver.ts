@@ -0,0 +1,273 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Module resolution settings collected from a tsconfig/jsconfig file and its `extends` chain
+ */
+interface ResolvedCompilerOptions {
+    /** Absolute baseUrl, if any config in the chain sets one */
+    baseUrl?: string;
+    paths?: Record<string, string[]>;
+    /** Directory `paths` entries are relative to: baseUrl, or the directory of the config declaring `paths` */
+    pathsBasePath?: string;
+}
+
+/**
+ * TsconfigResolver resolves non-relative specifiers using `compilerOptions.baseUrl` and
+ * `compilerOptions.paths` the same way `tsc` does, using the nearest tsconfig.json
+ * (or jsconfig.json) of the importing file and following `extends` chains.
+ */
+export class TsconfigResolver {
+    private static readonly CONFIG_FILES = ['tsconfig.json', 'jsconfig.json'];
+
+    private configCache = new Map<string, ResolvedCompilerOptions | null>();
+    private directoryCache = new Map<string, string | null>();
+
+    constructor(public readonly projectRoot: string) {}
+
+    /**
+     * Resolve a module specifier through the nearest config's `paths` and `baseUrl`.
+     *
+     * @param source - The import specifier, e.g. `@core/logger`
+     * @param fromDir - Directory of the importing file
+     * @param resolveFile - Callback that turns a candidate path into an existing file (trying extensions and index files)
+     * @returns The resolved file path, or undefined when the config does not map the specifier
+     */
+    resolve(source: string, fromDir: string, resolveFile: (candidate: string) => string | undefined): string | undefined {
+        const configPath = this.findConfigFile(fromDir);
+        if (!configPath) {
+            return undefined;
+        }
+
+        const options = this.loadConfig(configPath, new Set());
+        if (!options) {
+            return undefined;
+        }
+
+        if (options.paths && options.pathsBasePath) {
+            const match = this.matchPathPattern(source, Object.keys(options.paths));
+            if (match) {
+                for (const substitution of options.paths[match.pattern]) {
+                    const candidate = path.resolve(options.pathsBasePath, substitution.replace('*', match.wildcard));
+                    const resolved = resolveFile(candidate);
+                    if (resolved) {
+                        return resolved;
+                    }
+                }
+            }
+        }
+
+        // Non-relative names are also looked up relative to baseUrl
+        if (options.baseUrl) {
+            return resolveFile(path.resolve(options.baseUrl, source));
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Find the pattern `tsc` would pick: an exact match, otherwise the wildcard pattern with the longest prefix
+     */
+    private matchPathPattern(source: string, patterns: string[]): { pattern: string; wildcard: string } | undefined {
+        if (patterns.includes(source)) {
+            return { pattern: source, wildcard: '' };
+        }
+
+        let best: { pattern: string; wildcard: string } | undefined;
+        let bestPrefixLength = -1;
+
+        for (const pattern of patterns) {
+            const starIndex = pattern.indexOf('*');
+            if (starIndex === -1) {
+                continue;
+            }
+            const prefix = pattern.substring(0, starIndex);
+            const suffix = pattern.substring(starIndex + 1);
+            if (source.length >= prefix.length + suffix.length &&
+                source.startsWith(prefix) &&
+                source.endsWith(suffix) &&
+                prefix.length > bestPrefixLength) {
+                best = { pattern, wildcard: source.substring(prefix.length, source.length - suffix.length) };
+                bestPrefixLength = prefix.length;
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * Find the nearest tsconfig.json/jsconfig.json walking up from a directory, stopping at the project root
+     */
+    private findConfigFile(dir: string): string | undefined {
+        if (this.directoryCache.has(dir)) {
+            return this.directoryCache.get(dir) || undefined;
+        }
+
+        let found: string | null = null;
+        for (const configFile of TsconfigResolver.CONFIG_FILES) {
+            const configPath = path.join(dir, configFile);
+            if (fs.existsSync(configPath)) {
+                found = configPath;
+                break;
+            }
+        }
+
+        const parent = path.dirname(dir);
+        const isOutsideProject = path.relative(this.projectRoot, dir).startsWith('..');
+        if (!found && parent !== dir && !isOutsideProject && dir !== this.projectRoot) {
+            found = this.findConfigFile(parent) || null;
+        }
+
+        this.directoryCache.set(dir, found);
+        return found || undefined;
+    }
+
+    /**
+     * Load a config file and merge module resolution options from its `extends` chain
+     */
+    private loadConfig(configPath: string, visited: Set<string>): ResolvedCompilerOptions | null {
+        if (this.configCache.has(configPath)) {
+            return this.configCache.get(configPath)!;
+        }
+        if (visited.has(configPath)) {
+            console.log(`⚠️  Circular tsconfig extends: ${configPath}`);
+            return null;
+        }
+        visited.add(configPath);
+
+        let config: unknown;
+        try {
+            config = this.parseJsonc(fs.readFileSync(configPath, 'utf-8'));
+        } catch (error) {
+            console.log(`⚠️  Could not parse ${path.basename(configPath)}:`, error);
+            this.configCache.set(configPath, null);
+            return null;
+        }
+
+        const settings = this.isRecord(config) ? config : {};
+
+        // Start from the inherited options; later entries in an `extends` array win
+        let options: ResolvedCompilerOptions = {};
+        const parents = (Array.isArray(settings.extends) ? settings.extends : [settings.extends])
+            .filter((parent): parent is string => typeof parent === 'string');
+        for (const parent of parents) {
+            const parentPath = this.resolveExtends(parent, path.dirname(configPath));
+            if (!parentPath) {
+                console.log(`⚠️  Could not find extended config "${parent}" from ${path.basename(configPath)}`);
+                continue;
+            }
+            const parentOptions = this.loadConfig(parentPath, visited);
+            if (parentOptions) {
+                options = { ...options, ...parentOptions };
+            }
+        }
+
+        const configDir = path.dirname(configPath);
+        const compilerOptions = this.isRecord(settings.compilerOptions) ? settings.compilerOptions : {};
+
+        if (typeof compilerOptions.baseUrl === 'string') {
+            options.baseUrl = path.resolve(configDir, compilerOptions.baseUrl);
+        }
+        if (this.isRecord(compilerOptions.paths)) {
+            options.paths = this.getPaths(compilerOptions.paths);
+            options.pathsBasePath = configDir;
+        }
+        // `paths` entries are relative to the effective baseUrl when there is one
+        if (options.paths && options.baseUrl) {
+            options.pathsBasePath = options.baseUrl;
+        }
+
+        console.log(`🔧 Loaded ${path.relative(this.projectRoot, configPath) || configPath} (${Object.keys(options.paths || {}).length} path aliases)`);
+        this.configCache.set(configPath, options);
+        return options;
+    }
+
+    /**
+     * Resolve an `extends` value: a relative/absolute path or a config shipped in a package
+     */
+    private resolveExtends(value: string, configDir: string): string | undefined {
+        const candidates: string[] = [];
+
+        if (value.startsWith('.') || path.isAbsolute(value)) {
+            const base = path.resolve(configDir, value);
+            candidates.push(base, `${base}.json`);
+        } else {
+            // Look in node_modules of every ancestor directory, like Node module resolution
+            let dir = configDir;
+            while (true) {
+                const base = path.join(dir, 'node_modules', value);
+                candidates.push(base, `${base}.json`, path.join(base, 'tsconfig.json'));
+                const parent = path.dirname(dir);
+                if (parent === dir) {
+                    break;
+                }
+                dir = parent;
+            }
+        }
+
+        return candidates.find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+    }
+
+    /**
+     * Keep the `paths` entries tsc accepts: a pattern mapped to a list of substitution strings
+     */
+    private getPaths(paths: Record<string, unknown>): Record<string, string[]> {
+        const result: Record<string, string[]> = {};
+        for (const [pattern, substitutions] of Object.entries(paths)) {
+            if (Array.isArray(substitutions)) {
+                result[pattern] = substitutions.filter((substitution): substitution is string => typeof substitution === 'string');
+            } else {
+                console.log(`⚠️  Ignoring tsconfig paths entry "${pattern}": expected an array of strings`);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Whether a parsed JSON value is an object (not null or an array)
+     */
+    private isRecord(value: unknown): value is Record<string, unknown> {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+
+    /**
+     * Parse JSON with comments and trailing commas, as allowed in tsconfig files
+     */
+    private parseJsonc(content: string): unknown {
+        let result = '';
+        let inString = false;
+
+        for (let i = 0; i < content.length; i++) {
+            const char = content[i];
+            const next = content[i + 1];
+
+            if (inString) {
+                result += char;
+                if (char === '\\') {
+                    result += next;
+                    i++;
+                } else if (char === '"') {
+                    inString = false;
+                }
+            } else if (char === '"') {
+                inString = true;
+                result += char;
+            } else if (char === '/' && next === '/') {
+                while (i < content.length && content[i] !== '\n') {
+                    i++;
+                }
+                result += '\n';
+            } else if (char === '/' && next === '*') {
+                i += 2;
+                while (i < content.length && !(content[i] === '*' && content[i + 1] === '/')) {
+                    i++;
+                }
+                i++;
+            } else {
+                result += char;
+            }
+        }
+
+        return JSON.parse(result.replace(/,(\s*[}\]])/g, '$1'));
+    }
+}
@@ -1,9 +1,109 @@
+/**
+ * How a module is referenced:
+ * - import: static import with value bindings
+ * - type: type-only import (`import type`, all-`type` specifiers, `import('x').T` in type positions)
+ * - dynamic: `import('x')` expression
+ * - side-effect: `import 'x'` without bindings
+ * - re-export: `export ... from 'x'`
+ * - require: CommonJS `require('x')` or TS `import x = require('x')`
+ * - implicit: used without an import statement, through Nuxt auto-imports
+ */
+export type ImportKind = 'import' | 'type' | 'dynamic' | 'side-effect' | 're-export' | 'require' | 'implicit';
+
+/**
+ * Kind of non-script file a node stands for
+ */
+export type AssetType = 'stylesheet' | 'json' | 'image' | 'font' | 'media';
+
+/**
+ * How an external module is provided: a Node built-in, or the package.json field declaring it
+ */
+export type DependencyType = 'builtin' | 'dependency' | 'devDependency' | 'peerDependency' | 'undeclared';
+
+/**
+ * Per-project analysis options from the extension settings; unset fields fall back to auto-detection and defaults
+ */
+export interface AnalyzerSettings {
+    /** File extensions to analyze; empty detects them from the project type */
+    extensions?: string[];
+    /** .gitignore-style patterns, relative to the project root, selecting the analyzed files */
+    include?: string[];
+    /** .gitignore-style patterns, relative to the project root, of files and folders to skip */
+    exclude?: string[];
+    /** Directory names never scanned */
+    ignoredDirectories?: string[];
+    /** Directories, relative to the project root, whose files are treated as build output */
+    buildDirectories?: string[];
+    /** Import prefix -> directory relative to the project root, e.g. { "@/": "src/" } */
+    aliases?: Record<string, string>;
+    /** Levels of importers and of dependencies analyzed around a focused file */
+    depth?: AnalysisDepth;
+}
+
+/**
+ * How many levels of importers (files importing the focused file, their importers, ...)
+ * and of dependencies (its imports, their imports, ...) current-file analysis follows.
+ * `Infinity` follows the chain to the end.
+ */
+export interface AnalysisDepth {
+    importers: number;
+    dependencies: number;
+}
+
+/**
+ * Files analyzed so far out of the files found; the total grows while workspace folders are scanned
+ */
+export interface AnalysisProgress {
+    analyzedFiles: number;
+    totalFiles: number;
+}
+
+/**
+ * Hooks into a running analysis. `cancellation` takes a vscode.CancellationToken or any object
+ * with the same flag; a cancelled analysis rejects with AnalysisCancelledError.
+ */
+export interface AnalysisOptions {
+    onProgress?: (progress: AnalysisProgress) => void;
+    /** Called now and then with the files analyzed so far (project and workspace maps, without barrel targets) */
+    onPartialResult?: (importMap: ImportMap) => void;
+    cancellation?: { readonly isCancellationRequested: boolean };
+}
+
 export interface ImportInfo {
     source: string;
-    type: 'import' | 'require';
+    type: ImportKind;
     isNodeModule: boolean;
     resolvedPath?: string;
     importedNames?: string[];
+    /** For re-exports, including type-only ones: the names the importing file exposes, aligned with importedNames */
+    exportedNames?: string[];
+    barrelTargets?: BarrelTarget[];
+    /** For node modules: the package the specifier belongs to (`lodash` for `lodash/get`, `fs` for `node:fs`) */
+    packageName?: string;
+    dependencyType?: DependencyType;
+    /** Zero-based line of the specifier in the importing file */
+    line?: number;
+    /** A relative, alias or asset import that does not point at an existing file */
+    unresolved?: boolean;
+}
+
+/**
+ * A broken import, as listed in the panel and reported in the Problems view
+ */
+export interface UnresolvedImport {
+    filePath: string;
+    source: string;
+    line?: number;
+    /** The path the specifier was expected to resolve to */
+    expectedPath?: string;
+}
+
+/**
+ * The file that actually defines a symbol imported through a barrel (index) file
+ */
+export interface BarrelTarget {
+    name: string;
+    resolvedPath: string;
 }
 
 export interface FileNode {
@@ -12,11 +112,54 @@ export interface FileNode {
     imports: ImportInfo[];
     importedBy: string[];
     isNodeModule: boolean;
+    exports?: string[];
+    packageName?: string;
+    workspaceRoot?: string;
+    assetType?: AssetType;
 }
 
 export interface ImportMap {
     files: Map<string, FileNode>;
     entryFile?: string;
+    packages?: PackageInfo[];
+    roots?: WorkspaceRoot[];
+    /** Depth used for a current-file map */
+    depth?: AnalysisDepth;
+}
+
+/**
+ * Files created, modified or deleted since an import map was analyzed.
+ * A rename is reported as the deletion of the old path and the creation of the new one.
+ */
+export interface FileChanges {
+    /** Created or modified files and folders */
+    changed: string[];
+    /** Deleted files and folders */
+    deleted: string[];
+}
+
+/**
+ * Outcome of applying file changes to an analyzed map:
+ * - none: no analyzed file is affected
+ * - patched: the map was updated in place
+ * - reanalyze: the changes affect more than the touched files (configs, current-file and workspace maps); analyze again
+ */
+export type ImportMapUpdate = 'none' | 'patched' | 'reanalyze';
+
+/**
+ * A folder of a multi-root VS Code workspace
+ */
+export interface WorkspaceRoot {
+    name: string;
+    path: string;
+}
+
+/**
+ * A package of an npm/yarn/pnpm workspace
+ */
+export interface PackageInfo {
+    name: string;
+    dir: string;
 }
 
 export interface VisualizationNode {
@@ -25,6 +168,16 @@ export interface VisualizationNode {
     path: string;
     isNodeModule: boolean;
     isCurrentFile?: boolean;
+    isBarrel?: boolean;
+    collapsedOnly?: boolean;
+    isPackage?: boolean;
+    root?: string;
+    assetType?: AssetType;
+    dependencyType?: DependencyType;
+    /** For external packages: the specifiers used to import them (`lodash/get`, `lodash/map`) */
+    subpaths?: string[];
+    /** For subpath nodes: the id of the package node they expand from */
+    parentPackage?: string;
     x?: number;
     y?: number;
 }
@@ -32,5 +185,12 @@ export interface VisualizationNode {
 export interface VisualizationEdge {
     from: string;
     to: string;
-    type: 'import' | 'require';
+    type: ImportKind;
+    /** Every kind of reference merged into this edge; `type` is the most significant one */
+    kinds?: ImportKind[];
+    importedNames?: string[];
+    viaBarrel?: string;
+    collapsible?: boolean;
+    /** Edges from subpath nodes, shown while the package (by node id) is expanded */
+    subpathOf?: string;
 } 
\ No newline at end of file
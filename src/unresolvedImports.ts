@@ -0,0 +1,247 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ImportMap, UnresolvedImport } from './types';
+import { getAssetType } from './assetReferenceParser';
+import { collectUnresolvedImports } from './graphProblems';
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte', '.astro', '.mdx'];
+
+/**
+ * UnresolvedImportDiagnostics publishes unresolved imports to the Problems view
+ * ("Cannot resolve './utilz'" on the import line) and offers a quick fix that
+ * rewrites the specifier to the closest existing file.
+ */
+export class UnresolvedImportDiagnostics implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+    private static readonly DIAGNOSTIC_SOURCE = 'Import Map Explorer';
+    private static readonly DIAGNOSTIC_CODE = 'unresolved-import';
+
+    private readonly collection = vscode.languages.createDiagnosticCollection('importMapExplorer');
+    private unresolvedByFile = new Map<string, UnresolvedImport[]>();
+
+    /**
+     * Replace the diagnostics of every file of an analyzed import map.
+     * Files outside the map (e.g. from an earlier project analysis) keep theirs.
+     *
+     * @param importMap - The analyzed import map
+     */
+    update(importMap: ImportMap): void {
+        for (const filePath of importMap.files.keys()) {
+            this.unresolvedByFile.delete(filePath);
+            this.collection.delete(vscode.Uri.file(filePath));
+        }
+
+        const unresolvedImports = collectUnresolvedImports(importMap);
+        for (const unresolved of unresolvedImports) {
+            if (!this.unresolvedByFile.has(unresolved.filePath)) {
+                this.unresolvedByFile.set(unresolved.filePath, []);
+            }
+            this.unresolvedByFile.get(unresolved.filePath)!.push(unresolved);
+        }
+
+        for (const [filePath, fileImports] of this.unresolvedByFile) {
+            if (!importMap.files.has(filePath)) {
+                continue;
+            }
+            const lines = this.readLines(filePath);
+            const diagnostics = fileImports.map(unresolved => {
+                const diagnostic = new vscode.Diagnostic(
+                    this.getSpecifierRange(lines, unresolved),
+                    `Cannot resolve '${unresolved.source}'`,
+                    vscode.DiagnosticSeverity.Warning
+                );
+                diagnostic.source = UnresolvedImportDiagnostics.DIAGNOSTIC_SOURCE;
+                diagnostic.code = UnresolvedImportDiagnostics.DIAGNOSTIC_CODE;
+                return diagnostic;
+            });
+            this.collection.set(vscode.Uri.file(filePath), diagnostics);
+        }
+        console.log(`⚠️  Unresolved imports: ${unresolvedImports.length}`);
+    }
+
+    /**
+     * Offer "Change to './utils'" for our diagnostics when a similarly named file exists
+     */
+    provideCodeActions(document: vscode.TextDocument, range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+        const unresolvedImports = this.unresolvedByFile.get(document.uri.fsPath) || [];
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.code !== UnresolvedImportDiagnostics.DIAGNOSTIC_CODE) {
+                continue;
+            }
+            const specifier = document.getText(diagnostic.range);
+            const unresolved = unresolvedImports.find(imp =>
+                imp.source === specifier && (imp.line === undefined || imp.line === diagnostic.range.start.line)
+            );
+            if (!unresolved || !unresolved.expectedPath) {
+                continue;
+            }
+
+            const closest = this.findClosestFile(unresolved.expectedPath);
+            const replacement = closest && this.rewriteSpecifier(unresolved, closest);
+            if (!replacement) {
+                continue;
+            }
+
+            const action = new vscode.CodeAction(`Change to '${replacement}'`, vscode.CodeActionKind.QuickFix);
+            action.edit = new vscode.WorkspaceEdit();
+            action.edit.replace(document.uri, diagnostic.range, replacement);
+            action.diagnostics = [diagnostic];
+            action.isPreferred = true;
+            actions.push(action);
+        }
+
+        return actions;
+    }
+
+    /**
+     * Drop the diagnostics of deleted files and of the files inside deleted folders
+     *
+     * @param deletedPaths - Deleted files and folders
+     */
+    delete(deletedPaths: string[]): void {
+        for (const filePath of Array.from(this.unresolvedByFile.keys())) {
+            if (deletedPaths.some(deletedPath => filePath === deletedPath || filePath.startsWith(deletedPath + path.sep))) {
+                this.unresolvedByFile.delete(filePath);
+                this.collection.delete(vscode.Uri.file(filePath));
+            }
+        }
+    }
+
+    dispose(): void {
+        this.collection.dispose();
+    }
+
+    /**
+     * Range of the specifier text on its import line; the whole line when the specifier is not found
+     */
+    private getSpecifierRange(lines: string[], unresolved: UnresolvedImport): vscode.Range {
+        const line = Math.min(unresolved.line ?? 0, Math.max(lines.length - 1, 0));
+        const text = lines[line] || '';
+        const column = text.indexOf(unresolved.source);
+        if (column === -1) {
+            return new vscode.Range(line, 0, line, text.length);
+        }
+        return new vscode.Range(line, column, line, column + unresolved.source.length);
+    }
+
+    /**
+     * Find the existing file whose path (without extension) is closest to the expected path.
+     * Candidates are the files up to two levels below the nearest existing ancestor directory,
+     * of the same kind as the import (script/component/stylesheet, or the asset type of its extension).
+     */
+    private findClosestFile(expectedPath: string): string | undefined {
+        let baseDir = path.dirname(expectedPath);
+        while (!fs.existsSync(baseDir) && path.dirname(baseDir) !== baseDir) {
+            baseDir = path.dirname(baseDir);
+        }
+
+        const assetType = getAssetType(expectedPath);
+        const isCandidate = (filePath: string) => assetType
+            ? getAssetType(filePath) === assetType
+            : (SOURCE_EXTENSIONS.includes(path.extname(filePath)) && !filePath.endsWith('.d.ts')) || getAssetType(filePath) === 'stylesheet';
+        const target = this.stripExtension(path.relative(baseDir, expectedPath));
+
+        let closest: string | undefined;
+        let closestDistance = Math.max(3, Math.floor(target.length / 3)) + 1;
+        for (const candidate of this.listFiles(baseDir, 2).filter(isCandidate)) {
+            const distance = this.getEditDistance(target, this.stripExtension(path.relative(baseDir, candidate)));
+            if (distance < closestDistance) {
+                closest = candidate;
+                closestDistance = distance;
+            }
+        }
+        return closest;
+    }
+
+    /**
+     * Write a specifier for the suggested file in the style of the original one:
+     * relative specifiers stay relative, aliases keep their prefix, and the extension
+     * (or `/index`) is only written when the original specifier wrote it.
+     */
+    private rewriteSpecifier(unresolved: UnresolvedImport, filePath: string): string | undefined {
+        const expectedPath = unresolved.expectedPath!;
+        const keepExtension = path.extname(expectedPath) !== '' && path.extname(unresolved.source) !== '';
+        let target = keepExtension ? filePath : this.stripExtension(filePath);
+        if (!keepExtension && path.basename(target) === 'index' && !/\/index$/.test(unresolved.source)) {
+            target = path.dirname(target);
+        }
+
+        if (unresolved.source.startsWith('.')) {
+            const relative = path.relative(path.dirname(unresolved.filePath), target).split(path.sep).join('/');
+            return relative.startsWith('.') ? relative : `./${relative}`;
+        }
+
+        // Alias: keep the part of the specifier that maps to the directory above the common trailing segments
+        const sourceSegments = unresolved.source.split('/');
+        const expectedSegments = expectedPath.split(path.sep);
+        let common = 0;
+        while (common < sourceSegments.length - 1 && common < expectedSegments.length - 1 &&
+            this.stripExtension(sourceSegments[sourceSegments.length - 1 - common]) ===
+            this.stripExtension(expectedSegments[expectedSegments.length - 1 - common])) {
+            common++;
+        }
+        const aliasDir = expectedSegments.slice(0, expectedSegments.length - common).join(path.sep);
+        const relative = path.relative(aliasDir, target);
+        if (relative.startsWith('..') || path.isAbsolute(relative)) {
+            return undefined;
+        }
+        return [...sourceSegments.slice(0, sourceSegments.length - common), ...relative.split(path.sep)].join('/');
+    }
+
+    private stripExtension(filePath: string): string {
+        const ext = path.extname(filePath);
+        return ext ? filePath.slice(0, -ext.length) : filePath;
+    }
+
+    /**
+     * Levenshtein distance between two strings
+     */
+    private getEditDistance(a: string, b: string): number {
+        let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+        for (let i = 1; i <= a.length; i++) {
+            const current = [i];
+            for (let j = 1; j <= b.length; j++) {
+                current[j] = Math.min(
+                    previous[j] + 1,
+                    current[j - 1] + 1,
+                    previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+                );
+            }
+            previous = current;
+        }
+        return previous[b.length];
+    }
+
+    private listFiles(dir: string, depth: number): string[] {
+        let entries: fs.Dirent[];
+        try {
+            entries = fs.readdirSync(dir, { withFileTypes: true });
+        } catch (error) {
+            return [];
+        }
+
+        const files: string[] = [];
+        for (const entry of entries) {
+            const fullPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                if (depth > 0 && entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+                    files.push(...this.listFiles(fullPath, depth - 1));
+                }
+            } else {
+                files.push(fullPath);
+            }
+        }
+        return files;
+    }
+
+    private readLines(filePath: string): string[] {
+        try {
+            return fs.readFileSync(filePath, 'utf-8').split('\n');
+        } catch (error) {
+            return [];
+        }
+    }
+}
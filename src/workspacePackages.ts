@@ -0,0 +1,255 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PackageJsonResolver } from './packageJsonResolver';
+import { PackageInfo } from './types';
+
+/**
+ * A package that is part of the npm/yarn/pnpm workspace
+ */
+export interface WorkspacePackage extends PackageInfo {
+    /** Entry fields from package.json, in the order they are tried */
+    entries: string[];
+}
+
+/**
+ * WorkspacePackageResolver finds the packages of a monorepo from `workspaces` in package.json
+ * or `packages` in pnpm-workspace.yaml, and resolves imports of those packages by name
+ * to their source files instead of treating them as node modules.
+ */
+export class WorkspacePackageResolver {
+    private packages: WorkspacePackage[] = [];
+
+    constructor(public readonly projectRoot: string, private readonly packageJsonResolver: PackageJsonResolver) {
+        this.packages = this.detectPackages();
+        if (this.packages.length > 0) {
+            console.log(`📦 Workspace packages: ${this.packages.map(p => p.name).join(', ')}`);
+        }
+    }
+
+    getPackages(): WorkspacePackage[] {
+        return this.packages;
+    }
+
+    /**
+     * Link additional packages, such as the other folders of a multi-root workspace
+     */
+    addPackages(packages: WorkspacePackage[]): void {
+        for (const workspacePackage of packages) {
+            if (!this.packages.some(p => p.dir === workspacePackage.dir)) {
+                this.packages.push(workspacePackage);
+            }
+        }
+        this.packages.sort((a, b) => b.name.length - a.name.length);
+    }
+
+    /**
+     * Find the workspace package a file belongs to (the deepest package directory containing it)
+     */
+    getPackageForFile(filePath: string): WorkspacePackage | undefined {
+        let best: WorkspacePackage | undefined;
+        for (const workspacePackage of this.packages) {
+            const relative = path.relative(workspacePackage.dir, filePath);
+            if (!relative.startsWith('..') && !path.isAbsolute(relative) &&
+                (!best || workspacePackage.dir.length > best.dir.length)) {
+                best = workspacePackage;
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Resolve an import of a workspace package by name, e.g. `@acme/ui` or `@acme/ui/button`.
+     *
+     * @param source - The import specifier
+     * @param importType - Whether the specifier is loaded with `require` (affects `exports` conditions)
+     * @param resolveFile - Callback that turns a candidate path into an existing file
+     */
+    resolve(source: string, importType: string, resolveFile: (candidate: string) => string | undefined): string | undefined {
+        const workspacePackage = this.packages.find(p => source === p.name || source.startsWith(`${p.name}/`));
+        if (!workspacePackage) {
+            return undefined;
+        }
+
+        const subpath = source.substring(workspacePackage.name.length);
+        const exported = this.packageJsonResolver.resolveExports(workspacePackage.dir, subpath, importType, resolveFile);
+        if (exported) {
+            return exported;
+        }
+
+        if (subpath) {
+            return resolveFile(path.join(workspacePackage.dir, subpath));
+        }
+
+        // Entry fields often point at build output that may not exist; fall back to common source entries
+        const candidates = [...workspacePackage.entries, 'src/index', 'index'];
+        for (const entry of candidates) {
+            const resolved = resolveFile(path.resolve(workspacePackage.dir, entry));
+            if (resolved) {
+                return resolved;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Read workspace globs from the root package.json and pnpm-workspace.yaml and collect matching packages
+     */
+    private detectPackages(): WorkspacePackage[] {
+        const patterns = [...this.readPackageJsonWorkspaces(), ...this.readPnpmWorkspaces()];
+        if (patterns.length === 0) {
+            return [];
+        }
+
+        const includes = patterns.filter(p => !p.startsWith('!'));
+        const excludes = patterns.filter(p => p.startsWith('!')).map(p => p.substring(1));
+        const excludedDirs = new Set(excludes.flatMap(pattern => this.expandPattern(pattern)));
+
+        const packages: WorkspacePackage[] = [];
+        const seen = new Set<string>();
+        for (const pattern of includes) {
+            for (const dir of this.expandPattern(pattern)) {
+                if (seen.has(dir) || excludedDirs.has(dir)) {
+                    continue;
+                }
+                seen.add(dir);
+                const workspacePackage = WorkspacePackageResolver.readPackage(dir);
+                if (workspacePackage) {
+                    packages.push(workspacePackage);
+                }
+            }
+        }
+
+        // Longer names first so `@acme/ui-kit` is not matched as a subpath of `@acme/ui`
+        return packages.sort((a, b) => b.name.length - a.name.length);
+    }
+
+    private readPackageJsonWorkspaces(): string[] {
+        const packageJsonPath = path.join(this.projectRoot, 'package.json');
+        if (!fs.existsSync(packageJsonPath)) {
+            return [];
+        }
+        try {
+            const packageJson: unknown = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+            const workspaces = WorkspacePackageResolver.isRecord(packageJson) ? packageJson.workspaces : undefined;
+            // Yarn classic: { packages: [...], nohoist: [...] }
+            const patterns = WorkspacePackageResolver.isRecord(workspaces) ? workspaces.packages : workspaces;
+            if (Array.isArray(patterns)) {
+                return patterns.filter((pattern): pattern is string => typeof pattern === 'string');
+            }
+        } catch (error) {
+            console.log('⚠️  Could not parse package.json workspaces:', error);
+        }
+        return [];
+    }
+
+    /**
+     * Read the `packages` list of pnpm-workspace.yaml (a flat YAML sequence, parsed line by line)
+     */
+    private readPnpmWorkspaces(): string[] {
+        const yamlPath = path.join(this.projectRoot, 'pnpm-workspace.yaml');
+        if (!fs.existsSync(yamlPath)) {
+            return [];
+        }
+
+        const patterns: string[] = [];
+        let inPackages = false;
+        for (const line of fs.readFileSync(yamlPath, 'utf-8').split('\n')) {
+            const content = line.replace(/\s+#.*$/, '');
+            if (/^packages\s*:/.test(content)) {
+                inPackages = true;
+                continue;
+            }
+            if (/^\S/.test(content)) {
+                inPackages = false;
+                continue;
+            }
+            const itemMatch = content.match(/^\s*-\s*['"]?([^'"]+?)['"]?\s*$/);
+            if (inPackages && itemMatch) {
+                patterns.push(itemMatch[1]);
+            }
+        }
+        return patterns;
+    }
+
+    /**
+     * Expand a workspace glob (`packages/*`, `apps/**`, `tools/cli`) into existing directories
+     */
+    private expandPattern(pattern: string): string[] {
+        const segments = pattern.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, '').split('/');
+        const results: string[] = [];
+
+        const walk = (dir: string, index: number) => {
+            if (index === segments.length) {
+                results.push(dir);
+                return;
+            }
+            const segment = segments[index];
+
+            if (segment === '**') {
+                // Zero or more directory levels
+                walk(dir, index + 1);
+                for (const child of this.listDirectories(dir)) {
+                    walk(path.join(dir, child), index);
+                }
+                return;
+            }
+
+            if (!segment.includes('*')) {
+                const next = path.join(dir, segment);
+                if (fs.existsSync(next) && fs.statSync(next).isDirectory()) {
+                    walk(next, index + 1);
+                }
+                return;
+            }
+
+            const regex = new RegExp(`^${segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`);
+            for (const child of this.listDirectories(dir)) {
+                if (regex.test(child)) {
+                    walk(path.join(dir, child), index + 1);
+                }
+            }
+        };
+
+        walk(this.projectRoot, 0);
+        return results;
+    }
+
+    private listDirectories(dir: string): string[] {
+        try {
+            return fs.readdirSync(dir, { withFileTypes: true })
+                .filter(entry => entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.'))
+                .map(entry => entry.name);
+        } catch (error) {
+            return [];
+        }
+    }
+
+    /**
+     * Read the name and entry fields of the package in a directory
+     */
+    static readPackage(dir: string): WorkspacePackage | undefined {
+        const packageJsonPath = path.join(dir, 'package.json');
+        if (!fs.existsSync(packageJsonPath)) {
+            return undefined;
+        }
+        try {
+            const packageJson: unknown = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+            if (!WorkspacePackageResolver.isRecord(packageJson) || typeof packageJson.name !== 'string' || !packageJson.name) {
+                return undefined;
+            }
+            const entries = [packageJson.source, packageJson.module, packageJson.main]
+                .filter((entry): entry is string => typeof entry === 'string');
+            return { name: packageJson.name, dir, entries };
+        } catch (error) {
+            console.log(`⚠️  Could not parse ${packageJsonPath}:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Whether a parsed JSON value is an object (not null or an array)
+     */
+    private static isRecord(value: unknown): value is Record<string, unknown> {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+}